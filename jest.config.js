@@ -5,4 +5,5 @@ module.exports = {
   },
   testRegex: "(.*\\.(test|spec))\\.ts$",
   moduleFileExtensions: ["ts", "js"],
+  setupFilesAfterEnv: ["<rootDir>test/setupJest.ts"],
 };
@@ -0,0 +1,207 @@
+import AsyncResult from "./AsyncResult";
+import Option from "./Option";
+import Result from "./Result";
+
+/**
+ * An `Option` that will be available at some point in the future.
+ *
+ * Every callback-taking method accepts callbacks that return
+ * either a plain value or a promise of one.
+ *
+ * An `AsyncOption` is awaitable: `await asyncOpt` evaluates to
+ * the plain `Option` it resolves to.
+ * If one of the provided callbacks throws (or returns a promise that
+ * rejects), the `AsyncOption` rejects with the thrown value.
+ */
+export default interface AsyncOption<T> extends PromiseLike<Option<T>> {
+  /**
+   * Accepts an object with two callbacks.
+   * One will be called if `this` resolves to `none`.
+   * The other will be called with the value
+   * that `this` wraps if `this` resolves to `some`.
+   *
+   * Returns a promise of the return value of whichever callback
+   * gets called.
+   *
+   * @param matcher An object with callbacks for `none` and `some`.
+   */
+  match<N, S>(matcher: {
+    none: () => N | PromiseLike<N>;
+    some: (value: T) => S | PromiseLike<S>;
+  }): Promise<N | S>;
+
+  isNone(): Promise<boolean>;
+
+  isSome(): Promise<boolean>;
+
+  /**
+   * Returns `Option.none()` if `this` resolves to `none`,
+   * and `Option.some(mapper(x))` where `x` is
+   * the value that `this` wraps.
+   *
+   * @param mapper A function that will be called if `this` resolves to `some`.
+   */
+  map<R>(mapper: (value: T) => R | PromiseLike<R>): AsyncOption<R>;
+
+  /**
+   * Calls the provided callback with the value that `this` wraps
+   * if `this` resolves to `some`.
+   *
+   * The returned promise resolves once the callback
+   * (and the promise it returns, if any) has completed.
+   *
+   * @param executor A callback that will be called if `this` resolves to `some`.
+   */
+  ifSome(executor: (value: T) => void | PromiseLike<void>): Promise<void>;
+
+  /**
+   * Calls the provided callback if `this` resolves to `none`.
+   *
+   * The returned promise resolves once the callback
+   * (and the promise it returns, if any) has completed.
+   *
+   * @param executor A callback that will be called if `this` resolves to `none`.
+   */
+  ifNone(executor: () => void | PromiseLike<void>): Promise<void>;
+
+  /**
+   * Returns a promise of the value that `this` wraps if `this` resolves to `some`,
+   * otherwise returning a promise that rejects with an `UnwrapError`.
+   */
+  unwrap(): Promise<T>;
+
+  /**
+   * Returns a promise of the value that `this` wraps if `this` resolves to `some`,
+   * otherwise returning a promise that rejects with an `UnwrapError`
+   * with the provided message.
+   *
+   * @param message The message of the `UnwrapError` to reject with if `this` resolves to `none`.
+   */
+  expect(message: string): Promise<T>;
+  /**
+   * Returns a promise of the value that `this` wraps if `this` resolves to `some`,
+   * otherwise returning a promise that rejects with the provided error.
+   *
+   * @param error The error to reject with if `this` resolves to `none`.
+   */
+  expect(error: Error): Promise<T>;
+
+  expect(message: string | Error): Promise<T>;
+
+  /**
+   * Returns a promise of the value that `this` wraps if `this` resolves to `some`,
+   * otherwise returns a promise of the provided default.
+   *
+   * @param defaultValue The value to return if `this` resolves to `none`.
+   */
+  unwrapOr<D>(defaultValue: D): Promise<T | D>;
+
+  /**
+   * Returns a promise of the value that `this` wraps if `this` resolves to `some`,
+   * otherwise calls the provided thunk and returns a promise of its return value.
+   *
+   * The thunk is called lazily (i.e., if `this` resolves to `some`, the thunk
+   * will never be called because there is no need for a default value).
+   *
+   * @param defaultValueThunk A callback that returns the value to return if `this` resolves to `none`.
+   */
+  unwrapOrElse<D>(defaultValueThunk: () => D | PromiseLike<D>): Promise<T | D>;
+
+  /**
+   * Returns the provided option if `this` resolves to `some`,
+   * otherwise returns `Option.none()`.
+   *
+   * @param other The `Option` (or promise of one) to return if `this` resolves to `some`.
+   */
+  and<U>(other: Option<U> | PromiseLike<Option<U>>): AsyncOption<U>;
+
+  /**
+   * If `this` resolves to `some`, calls the provided callback with the value
+   * that `this` wraps and returns the callback's return value.
+   * Otherwise, returns `Option.none()`.
+   *
+   * The callback is called lazily (i.e., if `this` resolves to `none`, the callback
+   * will never be called).
+   *
+   * @param flatMapper A function that returns an `Option` (or promise of one) to return if `this` resolves to `some`.
+   */
+  andThen<U>(
+    flatMapper: (value: T) => Option<U> | PromiseLike<Option<U>>,
+  ): AsyncOption<U>;
+
+  /**
+   * Returns `this` if `this` resolves to `some`,
+   * otherwise returning the provided option.
+   *
+   * @param other The `Option` (or promise of one) to return if `this` resolves to `none`.
+   */
+  or<U>(other: Option<U> | PromiseLike<Option<U>>): AsyncOption<T | U>;
+
+  /**
+   * Returns `this` if `this` resolves to `some`,
+   * otherwise calling the provided callback and returning its return value.
+   *
+   * @param otherThunk The callback to call if `this` resolves to `none`.
+   */
+  orElse<U>(
+    otherThunk: () => Option<U> | PromiseLike<Option<U>>,
+  ): AsyncOption<T | U>;
+
+  /**
+   * Returns `Option.none()` if `this` resolves to `none`,
+   * otherwise calls the provided predicate with the value
+   * that `this` wraps and keeps the value if the predicate returns true.
+   *
+   * @param predicate The callback that returns whether to keep the wrapped value.
+   */
+  filter(
+    predicate: (value: T) => boolean | PromiseLike<boolean>,
+  ): AsyncOption<T>;
+
+  /**
+   * Converts from `AsyncOption<Option<U>>` to `AsyncOption<U>`.
+   * Only removes one level of nesting.
+   */
+  flatten<U>(this: AsyncOption<Option<U>>): AsyncOption<U>;
+
+  /**
+   * Returns a promise of an empty array if `this` resolves to `none`,
+   * otherwise returns a promise of a one-item array containing
+   * the value that `this` wraps.
+   */
+  array(): Promise<T[]>;
+
+  /**
+   * Resolves to the `Option` that is `some` if exactly one of
+   * `[this, other]` is `some`, otherwise resolves to `Option.none()`.
+   */
+  xor<U>(other: Option<U> | PromiseLike<Option<U>>): AsyncOption<T | U>;
+
+  /**
+   * Transposes an `AsyncOption` of a `Result` into an `AsyncResult` of an `Option`.
+   *
+   * `none` will be mapped to `ok(none)`.
+   * `some(ok(t))` and `some(err(e))` will be mapped to `ok(some(t))` and `err(e)`, respectively.
+   */
+  transpose<U, E>(this: AsyncOption<Result<U, E>>): AsyncResult<Option<U>, E>;
+
+  /**
+   * Returns a promise of `false` if `this` resolves to `none`,
+   * otherwise returns a promise of whether the value that `this`
+   * wraps equals the provided value (equality is
+   * determined using `===`).
+   */
+  equalsSome(other: T): Promise<boolean>;
+
+  /**
+   * Returns a promise of `false` if `this` resolves to `none`,
+   * otherwise returns a promise of whether the value that `this`
+   * wraps satisfies the provided predicate.
+   *
+   * @param predicate The callback to call if `this`
+   * resolves to `some`.
+   */
+  someSatisfies(
+    predicate: (val: T) => boolean | PromiseLike<boolean>,
+  ): Promise<boolean>;
+}
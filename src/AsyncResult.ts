@@ -0,0 +1,286 @@
+import AsyncOption from "./AsyncOption";
+import Option from "./Option";
+import Result from "./Result";
+
+/**
+ * A `Result` that will be available at some point in the future.
+ *
+ * Every callback-taking method accepts callbacks that return
+ * either a plain value or a promise of one.
+ *
+ * An `AsyncResult` is awaitable: `await asyncRes` evaluates to
+ * the plain `Result` it resolves to.
+ * If one of the provided callbacks throws (or returns a promise that
+ * rejects), the `AsyncResult` rejects with the thrown value.
+ */
+export default interface AsyncResult<T, E> extends PromiseLike<Result<T, E>> {
+  /**
+   * Accepts an object with two callbacks.
+   * One will be called if `this` resolves to `ok`.
+   * The other will be called if `this` resolves to `err`.
+   * In either case, the inner value gets
+   * passed to the callback.
+   *
+   * Returns a promise of the return value of whichever callback
+   * gets called.
+   *
+   * @param matcher An object with callbacks for `ok` and `err`.
+   */
+  match<U, V>(matcher: {
+    ok: (value: T) => U | PromiseLike<U>;
+    err: (error: E) => V | PromiseLike<V>;
+  }): Promise<U | V>;
+
+  /**
+   * Returns the inner value wrapped in `some` if `this`
+   * resolves to `ok`.
+   * Otherwise, returns `none`.
+   */
+  ok(): AsyncOption<T>;
+
+  /**
+   * Returns the inner value wrapped in `some` if `this`
+   * resolves to `err`.
+   * Otherwise, returns `none`.
+   */
+  err(): AsyncOption<E>;
+
+  isOk(): Promise<boolean>;
+
+  isErr(): Promise<boolean>;
+
+  /**
+   * Applies a function to the inner value if `this` resolves to `ok`.
+   * Otherwise, returns the `err` untouched.
+   *
+   * @param mapper A function that will be called if `this` resolves to `ok`.
+   */
+  map<T2>(mapper: (value: T) => T2 | PromiseLike<T2>): AsyncResult<T2, E>;
+
+  /**
+   * Applies a function to the inner value if `this` resolves to `err`.
+   * Otherwise, returns the `ok` untouched.
+   *
+   * @param mapper A function that will be called if `this` resolves to `err`.
+   */
+  mapErr<E2>(mapper: (error: E) => E2 | PromiseLike<E2>): AsyncResult<T, E2>;
+
+  /**
+   * Calls the provided callback with the inner value
+   * if `this` resolves to `ok`.
+   *
+   * The returned promise resolves once the callback
+   * (and the promise it returns, if any) has completed.
+   *
+   * @param executor A callback that will be called if `this` resolves to `ok`.
+   */
+  ifOk(executor: (value: T) => void | PromiseLike<void>): Promise<void>;
+
+  /**
+   * Calls the provided callback with the inner value
+   * if `this` resolves to `err`.
+   *
+   * The returned promise resolves once the callback
+   * (and the promise it returns, if any) has completed.
+   *
+   * @param executor A callback that will be called if `this` resolves to `err`.
+   */
+  ifErr(executor: (error: E) => void | PromiseLike<void>): Promise<void>;
+
+  /**
+   * Returns a promise of the inner value if `this` resolves to `ok`,
+   * otherwise returning a promise that rejects with an `UnwrapError`.
+   */
+  unwrap(): Promise<T>;
+
+  /**
+   * Same as `unwrap()` except the returned promise will never
+   * reject, since `this` cannot resolve to `err` (because
+   * the error type is `never`).
+   */
+  safeUnwrap(this: AsyncResult<any, never>): Promise<T>;
+
+  /**
+   * Same as `unwrapErr()` except the returned promise will never
+   * reject, since `this` cannot resolve to `ok` (because
+   * the ok type is `never`).
+   */
+  safeUnwrapErr(this: AsyncResult<never, any>): Promise<E>;
+
+  /**
+   * Returns a promise of the inner value if `this` resolves to `err`,
+   * otherwise returning a promise that rejects with an `UnwrapError`.
+   */
+  unwrapErr(): Promise<E>;
+
+  /**
+   * Returns a promise of the inner value if `this` resolves to `ok`,
+   * otherwise returning a promise that rejects with the inner value.
+   */
+  unwrapOrThrowErr(): Promise<T>;
+
+  /**
+   * Returns a promise of the inner value if `this` resolves to `err`,
+   * otherwise returning a promise that rejects with the inner value.
+   */
+  unwrapErrOrThrowOk(): Promise<E>;
+
+  /**
+   * Returns a promise of the inner value if `this` resolves to `ok`,
+   * otherwise returning a promise that rejects with an `UnwrapError`
+   * with the provided message.
+   *
+   * @param message The message of the error to reject with if `this` resolves to `err`.
+   */
+  expect(message: string): Promise<T>;
+  /**
+   * Returns a promise of the inner value if `this` resolves to `ok`,
+   * otherwise returning a promise that rejects with the provided error.
+   *
+   * @param error The error to reject with if `this` resolves to `err`.
+   */
+  expect(error: Error): Promise<T>;
+
+  expect(message: string | Error): Promise<T>;
+
+  /**
+   * Returns a promise of the inner value if `this` resolves to `err`,
+   * otherwise returning a promise that rejects with an `UnwrapError`
+   * with the provided message.
+   *
+   * @param message The message of the error to reject with if `this` resolves to `ok`.
+   */
+  expectErr(message: string): Promise<E>;
+  /**
+   * Returns a promise of the inner value if `this` resolves to `err`,
+   * otherwise returning a promise that rejects with the provided error.
+   *
+   * @param error The error to reject with if `this` resolves to `ok`.
+   */
+  expectErr(error: Error): Promise<E>;
+
+  expectErr(message: string | Error): Promise<E>;
+
+  /**
+   * Returns a promise of the inner value if `this` resolves to `ok`,
+   * otherwise returns a promise of the provided default.
+   *
+   * @param defaultValue The value to return if `this` resolves to `err`.
+   */
+  unwrapOr<D>(defaultValue: D): Promise<T | D>;
+
+  /**
+   * Returns a promise of the inner value if `this` resolves to `ok`,
+   * otherwise calls the provided thunk and returns a promise of its return value.
+   *
+   * The thunk is called lazily (i.e., if `this` resolves to `ok`, the thunk
+   * will never be called because there is no need for a default value).
+   *
+   * @param defaultValueThunk A callback that returns the value to return if `this` resolves to `err`.
+   */
+  unwrapOrElse<D>(
+    defaultValueThunk: (error: E) => D | PromiseLike<D>,
+  ): Promise<T | D>;
+
+  /**
+   * Returns the provided result if `this` resolves to `ok`,
+   * otherwise returns the `err` untouched.
+   *
+   * @param other The `Result` (or promise of one) to return if `this` resolves to `ok`.
+   */
+  and<T2, E2>(
+    other: Result<T2, E2> | PromiseLike<Result<T2, E2>>,
+  ): AsyncResult<T2, E | E2>;
+
+  /**
+   * If `this` resolves to `ok`, calls the provided callback with the inner value
+   * and returns the callback's return value.
+   * Otherwise, returns the `err` untouched.
+   *
+   * The callback is called lazily (i.e., if `this` resolves to `err`, the callback
+   * will never be called).
+   *
+   * @param flatMapper A function that returns a `Result` (or promise of one) to return if `this` resolves to `ok`.
+   */
+  andThen<T2, E2>(
+    flatMapper: (value: T) => Result<T2, E2> | PromiseLike<Result<T2, E2>>,
+  ): AsyncResult<T2, E | E2>;
+
+  /**
+   * Returns `this` if `this` resolves to `ok`,
+   * otherwise returning the provided result.
+   *
+   * @param other The `Result` (or promise of one) to return if `this` resolves to `err`.
+   */
+  or<T2, E2>(
+    other: Result<T2, E2> | PromiseLike<Result<T2, E2>>,
+  ): AsyncResult<T | T2, E2>;
+
+  /**
+   * Returns `this` if `this` resolves to `ok`,
+   * otherwise calling the provided callback and returning its return value.
+   *
+   * The callback is called lazily (i.e., if `this` resolves to `ok`, the callback
+   * will never be called).
+   *
+   * @param otherThunk The callback to call if `this` resolves to `err`.
+   */
+  orElse<T2, E2>(
+    otherThunk: (error: E) => Result<T2, E2> | PromiseLike<Result<T2, E2>>,
+  ): AsyncResult<T | T2, E2>;
+
+  /**
+   * Returns a promise of an empty array if `this` resolves to `err`,
+   * otherwise returns a promise of a one-item array containing
+   * the inner value.
+   */
+  array(): Promise<[] | [T]>;
+
+  /**
+   * Transposes an `AsyncResult` of an `Option` into
+   * an `AsyncOption` of a `Result`.
+   *
+   * `ok(none)` will be mapped to `none`.
+   * `ok(some(t))` and `err(e)` will be mapped to `some(ok(t))` and `some(err(e))`, respectively.
+   */
+  transpose<U>(this: AsyncResult<Option<U>, E>): AsyncOption<Result<U, E>>;
+
+  /**
+   * If `this` resolves to `ok`, returns a promise of the return value
+   * of the provided predicate.
+   * Otherwise, returns a promise of `false`.
+   */
+  okSatisfies(
+    predicate: (value: T) => boolean | PromiseLike<boolean>,
+  ): Promise<boolean>;
+
+  /**
+   * If `this` resolves to `err`, returns a promise of the return value
+   * of the provided predicate.
+   * Otherwise, returns a promise of `false`.
+   */
+  errSatisfies(
+    predicate: (error: E) => boolean | PromiseLike<boolean>,
+  ): Promise<boolean>;
+
+  /**
+   * If this resolves to `ok(t)`, returns `err(t)`.
+   * If this resolves to `err(e)`, returns `ok(e)`.
+   */
+  reverse(): AsyncResult<E, T>;
+
+  /**
+   * Allows `this` to be used with `yield*` inside a `result.genAsync()` block.
+   *
+   * Once `this` resolves, the iterator behaves like the resolved
+   * `Result`'s `bind()`.
+   */
+  bind(): AsyncGenerator<["ok", unknown] | ["err", E], T, unknown>;
+
+  /**
+   * Yields the inner value if this resolves to `ok`,
+   * or nothing if this resolves to `err`,
+   * so that async results work with `for await...of`.
+   */
+  [Symbol.asyncIterator](): AsyncIterator<T>;
+}
@@ -0,0 +1,141 @@
+import Option from "./Option";
+import OptionImpl from "./private/OptionImpl";
+import debugFormat from "./private/debugFormat";
+
+/**
+ * An error that describes what was being attempted when its
+ * `cause` occurred, like an `anyhow::Error` with context.
+ *
+ * Created by `Result.prototype.context()` and
+ * `Result.prototype.withContext()`.
+ * Adding context to a result whose error is already a `ContextError`
+ * produces a chain, which `chain()` walks from the outermost context
+ * to the root cause.
+ */
+export default class ContextError<C = unknown> extends Error {
+  constructor(readonly context: string, readonly cause: C) {
+    super(context);
+    this.name = "ContextError";
+    // Restores the prototype chain, which extending `Error` breaks
+    // when compiling to ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+
+  /**
+   * Returns `this`, followed by its cause, its cause's cause, and so on.
+   *
+   * Any error with a `cause` property (e.g., one created with
+   * `new Error(message, { cause })`) continues the chain.
+   */
+  chain(): unknown[] {
+    const chain: unknown[] = [this];
+    for (let current: unknown = this.cause; ; ) {
+      if (chain.indexOf(current) !== -1) {
+        return chain;
+      }
+      chain.push(current);
+      if (!hasCause(current)) {
+        return chain;
+      }
+      current = current.cause;
+    }
+  }
+
+  /**
+   * Returns the last error in `chain()`.
+   */
+  rootCause(): unknown {
+    const chain = this.chain();
+    return chain[chain.length - 1];
+  }
+
+  /**
+   * Returns `some` of the first error in `chain()` that is an instance
+   * of the provided class, or `none` if there is no such error.
+   *
+   * Corresponds to anyhow's `Error::downcast_ref()`, except that
+   * the whole chain is searched.
+   *
+   * @param errorClass The class of the error to find.
+   */
+  downcast<D>(errorClass: new (...args: any[]) => D): Option<D> {
+    const chain = this.chain();
+    for (let i = 0; i < chain.length; i++) {
+      const error = chain[i];
+      if (error instanceof errorClass) {
+        return OptionImpl.some(error);
+      }
+    }
+    return OptionImpl.none();
+  }
+
+  /**
+   * Returns the context followed by every cause in the chain,
+   * formatted like anyhow's `{:?}`:
+   *
+   * ```text
+   * Failed to load config
+   *
+   * Caused by:
+   *     0: Failed to read config.json
+   *     1: ENOENT: no such file or directory
+   * ```
+   */
+  toString(): string {
+    const causes = this.chain()
+      .slice(1)
+      .map(describe);
+    if (causes.length === 0) {
+      return this.context;
+    }
+    return (
+      this.context +
+      "\n\nCaused by:\n" +
+      causes
+        .map(
+          (cause, i) =>
+            `    ${i}: ${cause.replace(/\n/g, "\n" + " ".repeat(7))}`,
+        )
+        .join("\n")
+    );
+  }
+
+  /**
+   * Returns the context and the description of every cause,
+   * so that `JSON.stringify()` produces a useful structured log entry.
+   */
+  toJSON(): { name: string; message: string; causes: string[] } {
+    return {
+      name: this.name,
+      message: this.context,
+      causes: this.chain()
+        .slice(1)
+        .map(describe),
+    };
+  }
+}
+
+function hasCause(error: unknown): error is { cause: unknown } {
+  return (
+    "object" === typeof error &&
+    error !== null &&
+    "cause" in error &&
+    (error as { cause?: unknown }).cause !== undefined
+  );
+}
+
+/**
+ * Describes a single link of a chain, without its causes.
+ */
+function describe(error: unknown): string {
+  if (error instanceof ContextError) {
+    return error.context;
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if ("string" === typeof error) {
+    return error;
+  }
+  return debugFormat(error);
+}
@@ -0,0 +1,18 @@
+/**
+ * Options for `Option.prototype.toString()`
+ * and `Result.prototype.toString()`.
+ */
+export default interface DebugOptions {
+  /**
+   * Whether to pretty-print nested values over multiple lines,
+   * like Rust's `{:#?}`. Defaults to `false`.
+   */
+  alternate?: boolean;
+
+  /**
+   * How many levels of nested objects, arrays, options, and results
+   * to print inside the outermost value.
+   * Anything deeper is printed as `..`. Defaults to `Infinity`.
+   */
+  depth?: number;
+}
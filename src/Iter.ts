@@ -0,0 +1,150 @@
+import Option from "./Option";
+import Result from "./Result";
+
+/**
+ * A lazy sequence of values, modelled on Rust's `Iterator` trait.
+ *
+ * Adapters like `map()` and `filter()` return a new `Iter` and do
+ * no work until values are pulled from it (e.g., by `next()`,
+ * a consuming method, or a `for...of` loop).
+ *
+ * An `Iter` is single-use: adapters and consuming methods pull values
+ * from the `Iter` they were called on, so that `Iter` should not
+ * be used afterwards.
+ */
+export default interface Iter<T> extends Iterable<T> {
+  /**
+   * Advances the iterator and returns the next value wrapped in `some`.
+   * Returns `none` once the iterator is exhausted.
+   *
+   * Corresponds to Rust's `Iterator::next()`.
+   */
+  next(): Option<T>;
+
+  /**
+   * Returns an `Iter` that calls the provided callback on each value.
+   *
+   * @param mapper The function to apply to each value.
+   */
+  map<U>(mapper: (value: T) => U): Iter<U>;
+
+  /**
+   * Returns an `Iter` that only yields the values
+   * that satisfy the provided predicate.
+   *
+   * @param predicate The function that decides whether to keep a value.
+   */
+  filter(predicate: (value: T) => boolean): Iter<T>;
+
+  /**
+   * Returns an `Iter` that calls the provided callback on each value,
+   * yielding the wrapped value whenever the callback returns `some`
+   * and skipping the value whenever it returns `none`.
+   *
+   * @param filterMapper The function to apply to each value.
+   */
+  filterMap<U>(filterMapper: (value: T) => Option<U>): Iter<U>;
+
+  /**
+   * Calls the provided callback on each value until it returns `some`,
+   * then returns that `some`.
+   * Returns `none` if the callback never returns `some`.
+   *
+   * @param finder The function to apply to each value.
+   */
+  findMap<U>(finder: (value: T) => Option<U>): Option<U>;
+
+  /**
+   * Returns an `Iter` that yields values until one fails to satisfy
+   * the provided predicate.
+   * The failing value (and every value after it) is not yielded.
+   *
+   * @param predicate The function that decides whether to keep going.
+   */
+  takeWhile(predicate: (value: T) => boolean): Iter<T>;
+
+  /**
+   * Returns the index of the first value that satisfies the provided
+   * predicate wrapped in `some`, or `none` if no value satisfies it.
+   *
+   * @param predicate The function to test each value with.
+   */
+  position(predicate: (value: T) => boolean): Option<number>;
+
+  /**
+   * Returns the `n`th value (counting from zero) wrapped in `some`,
+   * or `none` if the iterator has `n` or fewer values.
+   *
+   * @param n The zero-based index of the value to return.
+   */
+  nth(n: number): Option<T>;
+
+  /**
+   * Consumes the iterator and returns the last value wrapped in `some`,
+   * or `none` if the iterator is empty.
+   */
+  last(): Option<T>;
+
+  /**
+   * Consumes the iterator and returns the smallest value wrapped in `some`,
+   * or `none` if the iterator is empty.
+   * If several values are equally small, the first one is returned.
+   *
+   * @param compare A comparator that returns a negative number if `a < b`,
+   * zero if `a` and `b` are equal, and a positive number if `a > b`.
+   * Defaults to comparing with `<` and `>`.
+   */
+  min(compare?: (a: T, b: T) => number): Option<T>;
+
+  /**
+   * Consumes the iterator and returns the largest value wrapped in `some`,
+   * or `none` if the iterator is empty.
+   * If several values are equally large, the last one is returned.
+   *
+   * @param compare A comparator that returns a negative number if `a < b`,
+   * zero if `a` and `b` are equal, and a positive number if `a > b`.
+   * Defaults to comparing with `<` and `>`.
+   */
+  max(compare?: (a: T, b: T) => number): Option<T>;
+
+  /**
+   * Folds every value into an accumulator, stopping at the first `err`.
+   *
+   * Returns `ok(accumulator)` if the callback never returned `err`,
+   * otherwise returns the first `err` the callback returned.
+   * The iterator is not advanced past the value that caused the `err`.
+   *
+   * @param initialValue The initial accumulator.
+   * @param folder The function that combines the accumulator with a value.
+   */
+  tryFold<A, E>(
+    initialValue: A,
+    folder: (accumulator: A, value: T) => Result<A, E>,
+  ): Result<A, E>;
+
+  /**
+   * Calls the provided callback on each value, stopping at the first `err`.
+   *
+   * Returns `ok(undefined)` if the callback never returned `err`,
+   * otherwise returns the first `err` the callback returned.
+   *
+   * @param executor The function to call on each value.
+   */
+  tryForEach<E>(executor: (value: T) => Result<unknown, E>): Result<void, E>;
+
+  /**
+   * Collects an `Iter` of results into a result of an array,
+   * stopping at the first `err`.
+   *
+   * Returns `ok(values)` if every value is `ok`,
+   * otherwise returns the first `err`.
+   */
+  collect<U, E>(this: Iter<Result<U, E>>): Result<U[], E>;
+
+  /**
+   * Consumes the iterator and returns an array of its values.
+   */
+  toArray(): T[];
+
+  [Symbol.iterator](): Iterator<T>;
+}
@@ -1,9 +1,14 @@
+import DebugOptions from "./DebugOptions";
+import Iter from "./Iter";
 import Result from "./Result";
 
 /**
- * A wrapper representing a value that may be missing.
+ * The methods shared by both variants of an `Option`.
+ *
+ * Most code should use `Option<T>` (i.e., `Some<T> | None<T>`) instead,
+ * which can be narrowed with `isSome()` and `isNone()`.
  */
-export default interface Option<T> {
+export interface BaseOption<T> {
   /**
    * Accepts an object with two callbacks.
    * One will be called if `this` is `none`.
@@ -17,9 +22,20 @@ export default interface Option<T> {
    */
   match<N, S>(matcher: { none: () => N; some: (value: T) => S }): N | S;
 
-  isNone(): boolean;
+  /**
+   * Returns whether `this` is `none`.
+   *
+   * Narrows `this` to `None<T>`.
+   */
+  isNone(): this is None<T>;
 
-  isSome(): boolean;
+  /**
+   * Returns whether `this` is `some`.
+   *
+   * Narrows `this` to `Some<T>`, whose wrapped value
+   * can be read from `value`.
+   */
+  isSome(): this is Some<T>;
 
   /**
    * Returns `Option.none()` if `this` is `none`,
@@ -189,4 +205,265 @@ export default interface Option<T> {
    * is `some`.
    */
   someSatisfies(predicate: (val: T) => boolean): boolean;
+
+  /**
+   * Returns `some([t, u])` if `this` is `some(t)` and `other` is `some(u)`,
+   * otherwise returns `Option.none()`.
+   *
+   * @param other The `Option` to zip with.
+   */
+  zip<U>(other: Option<U>): Option<[T, U]>;
+
+  /**
+   * Returns `some(zipper(t, u))` if `this` is `some(t)` and `other` is `some(u)`,
+   * otherwise returns `Option.none()`.
+   *
+   * The callback is called lazily (i.e., if either option is `none`,
+   * the callback will never be called).
+   *
+   * @param other The `Option` to zip with.
+   * @param zipper A function that combines the two wrapped values.
+   */
+  zipWith<U, R>(
+    other: Option<U>,
+    zipper: (value: T, otherValue: U) => R,
+  ): Option<R>;
+
+  /**
+   * Converts from `Option<[A, B]>` to `[Option<A>, Option<B>]`.
+   *
+   * `some([a, b])` will be mapped to `[some(a), some(b)]`,
+   * and `none` will be mapped to `[none, none]`.
+   */
+  unzip<A, B>(this: Option<[A, B]>): [Option<A>, Option<B>];
+
+  /**
+   * Returns the provided default if `this` is `none`,
+   * otherwise returns `mapper(x)` where `x` is
+   * the value that `this` wraps.
+   *
+   * @param defaultValue The value to return if `this` is `none`.
+   * @param mapper A function that will be called if `this` is `some`.
+   */
+  mapOr<D, R>(defaultValue: D, mapper: (value: T) => R): D | R;
+
+  /**
+   * Returns the return value of the provided thunk if `this` is `none`,
+   * otherwise returns `mapper(x)` where `x` is
+   * the value that `this` wraps.
+   *
+   * Only one of the two callbacks is ever called.
+   *
+   * @param defaultValueThunk A callback that returns the value to return if `this` is `none`.
+   * @param mapper A function that will be called if `this` is `some`.
+   */
+  mapOrElse<D, R>(defaultValueThunk: () => D, mapper: (value: T) => R): D | R;
+
+  /**
+   * Returns `ok(x)` if `this` is `some(x)`,
+   * otherwise returns `err(error)`.
+   *
+   * @param error The error to wrap if `this` is `none`.
+   */
+  okOr<E>(error: E): Result<T, E>;
+
+  /**
+   * Returns `ok(x)` if `this` is `some(x)`,
+   * otherwise calls the provided thunk and returns its return value
+   * wrapped in `err`.
+   *
+   * The thunk is called lazily (i.e., if `this` is `some`, the thunk
+   * will never be called).
+   *
+   * @param errorThunk A callback that returns the error to wrap if `this` is `none`.
+   */
+  okOrElse<E>(errorThunk: () => E): Result<T, E>;
+
+  /**
+   * Calls the provided callback with the value that `this` wraps
+   * if `this` is `some`, then returns `this`.
+   *
+   * Useful for logging or debugging in the middle of a chain.
+   *
+   * @param executor A callback that will be called if `this` is `some`.
+   */
+  inspect(executor: (value: T) => void): Option<T>;
+
+  /**
+   * Returns true if and only if `this` is `some(v)`
+   * and `predicate(v)` is `true`.
+   *
+   * Same as `someSatisfies()`.
+   * Corresponds to Rust's `Option::is_some_and()`.
+   *
+   * @param predicate The callback to call if `this` is `some`.
+   */
+  isSomeAnd(predicate: (value: T) => boolean): boolean;
+
+  /**
+   * Returns true if `this` is `none`,
+   * otherwise returns whether the value that `this`
+   * wraps satisfies the provided predicate.
+   *
+   * Corresponds to Rust's `Option::is_none_or()`.
+   *
+   * @param predicate The callback to call if `this` is `some`.
+   */
+  isNoneOr(predicate: (value: T) => boolean): boolean;
+
+  /**
+   * Returns false if `this` is `none`,
+   * otherwise returns whether the value that `this`
+   * wraps equals the provided value.
+   *
+   * @param other The value to compare the wrapped value with.
+   * @param equals The equality function to use.
+   * Defaults to `===`.
+   */
+  contains(other: T, equals?: (value: T, other: T) => boolean): boolean;
+
+  /**
+   * If `this` is `some`, returns the wrapped value and `this`.
+   * Otherwise, calls the provided thunk and returns its return value
+   * and an option that wraps it.
+   *
+   * Corresponds to Rust's `Option::get_or_insert_with()`, except that
+   * the option holding the inserted value is returned instead of
+   * replacing `this`.
+   *
+   * @param valueThunk A callback that returns the value to insert if `this` is `none`.
+   */
+  getOrInsertWith(valueThunk: () => T): [T, Option<T>];
+
+  /**
+   * Calls the provided thunk and returns its return value if `this` is `some`,
+   * otherwise returns `Option.none()`.
+   *
+   * This is a lazy version of `and()`: the thunk is only called
+   * if `this` is `some`.
+   * (`orElse()` is the lazy version of `or()`.)
+   *
+   * @param otherThunk The callback to call if `this` is `some`.
+   */
+  andLazy<U>(otherThunk: () => Option<U>): Option<U>;
+
+  /**
+   * Returns whether `this` and `other` are both `none`,
+   * or both `some` with equal wrapped values.
+   *
+   * @param other The `Option` to compare `this` with.
+   * @param equals The equality function for the wrapped values.
+   * Defaults to a deep equality that compares options, results,
+   * arrays, and plain objects structurally.
+   */
+  equals(other: Option<T>, equals?: (a: T, b: T) => boolean): boolean;
+
+  /**
+   * Compares `this` with `other` like Rust's derived `Ord`:
+   * `none` is less than every `some`, and two `some`s are ordered
+   * by their wrapped values.
+   *
+   * Returns a negative number if `this < other`, zero if they are equal,
+   * and a positive number if `this > other`.
+   *
+   * @param other The `Option` to compare `this` with.
+   * @param compare The comparator for the wrapped values.
+   * Defaults to a deep comparator that orders numbers numerically,
+   * strings by code unit, and options, results, arrays, and plain objects
+   * lexicographically.
+   */
+  compare(other: Option<T>, compare?: (a: T, b: T) => number): number;
+
+  /**
+   * Returns an unsigned 32-bit hash of `this` that is stable across runs
+   * and consistent with `equals()`.
+   *
+   * @param hash The hash function for the wrapped value.
+   * Must be consistent with the equality passed to `equals()`.
+   * Defaults to a deep hash that is consistent with the default equality.
+   */
+  hash(hash?: (value: T) => number): number;
+
+  /**
+   * Returns `null` if `this` is `none`, otherwise returns
+   * the wrapped value, matching how serde represents `Option`.
+   *
+   * `JSON.stringify()` calls this method, so options (and results)
+   * nested in the wrapped value are converted too.
+   * Use `serde.decode()` to revive the JSON.
+   */
+  toJSON(): unknown;
+
+  /**
+   * Returns a Rust-style debug representation of `this`,
+   * e.g., `None`, `Some(42)`, or `Some("foo")`.
+   *
+   * Options also print this way with `console.log()` and `util.inspect()`
+   * in Node, and `Object.prototype.toString.call()` returns `"[object Option]"`.
+   *
+   * @param options Whether to pretty-print like Rust's `{:#?}`,
+   * and how deeply to print nested values.
+   */
+  toString(options?: DebugOptions): string;
+
+  /**
+   * Returns an `Iter` that yields the wrapped value if `this` is `some`,
+   * or nothing if `this` is `none`.
+   *
+   * Corresponds to Rust's `Option::iter()`.
+   */
+  iter(): Iter<T>;
+
+  /**
+   * Allows `this` to be used with `yield*` inside an `option.gen()` block.
+   *
+   * The iterator yields a single tagged step (`["some", value]` or `["none"]`)
+   * that `option.gen()` inspects.
+   * If `this` is `some`, `yield* this.bind()` evaluates to the wrapped value.
+   * Otherwise, `option.gen()` short-circuits and returns `none`.
+   */
+  bind(): Generator<["some", unknown] | ["none"], T, unknown>;
+
+  /**
+   * Yields the wrapped value if `this` is `some`,
+   * or nothing if `this` is `none`,
+   * so that options work with `for...of` and spread.
+   */
+  [Symbol.iterator](): Iterator<T>;
 }
+
+/**
+ * The `some` variant of an `Option`.
+ */
+export interface Some<T> extends BaseOption<T> {
+  readonly kind: "some";
+
+  /**
+   * The value that `this` wraps.
+   */
+  readonly value: T;
+}
+
+/**
+ * The `none` variant of an `Option`.
+ */
+export interface None<T> extends BaseOption<T> {
+  readonly kind: "none";
+}
+
+/**
+ * A wrapper representing a value that may be missing.
+ *
+ * Use `isSome()` or `isNone()` (or check `kind`) to narrow an `Option`
+ * to one of its variants.
+ * For example:
+ *
+ * ```ts
+ * if (opt.isSome()) {
+ *   console.log(opt.value);
+ * }
+ * ```
+ */
+type Option<T> = Some<T> | None<T>;
+
+export default Option;
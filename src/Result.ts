@@ -1,9 +1,15 @@
+import ContextError from "./ContextError";
+import DebugOptions from "./DebugOptions";
+import Iter from "./Iter";
 import Option from "./Option";
 
 /**
- * Represents a success (`ok`) or failure (`err`).
+ * The methods shared by both variants of a `Result`.
+ *
+ * Most code should use `Result<T, E>` (i.e., `Ok<T, E> | Err<T, E>`) instead,
+ * which can be narrowed with `isOk()` and `isErr()`.
  */
-export default interface Result<T, E> {
+export interface BaseResult<T, E> {
   /**
    * Accepts an object with two callbacks.
    * One will be called if `this` is `ok`.
@@ -32,9 +38,21 @@ export default interface Result<T, E> {
    */
   err(): Option<E>;
 
-  isOk(): this is Result<T, never>;
+  /**
+   * Returns whether `this` is `ok`.
+   *
+   * Narrows `this` to `Ok<T, E>`, whose inner value
+   * can be read from `value`.
+   */
+  isOk(): this is Ok<T, E>;
 
-  isErr(): this is Result<never, E>;
+  /**
+   * Returns whether `this` is `err`.
+   *
+   * Narrows `this` to `Err<T, E>`, whose inner value
+   * can be read from `error`.
+   */
+  isErr(): this is Err<T, E>;
 
   /**
    * Applies a function to the inner value if `this` is `ok`.
@@ -73,7 +91,9 @@ export default interface Result<T, E> {
 
   /**
    * Returns the inner value if `this` is `ok`,
-   * otherwise throwing an error.
+   * otherwise throwing an `UnwrapError` whose `payload` and `cause`
+   * are the inner error, and whose message includes a debug
+   * rendering of it (like Rust's panic message).
    */
   unwrap(): T;
 
@@ -81,6 +101,7 @@ export default interface Result<T, E> {
    * Same as `unwrap()` except this method will never
    * throw, since `this` cannot be `err` (because
    * the error type is `never`).
+   * In debug mode (see `debugMode`), panics if `this` is `err` anyway.
    */
   safeUnwrap(this: Result<any, never>): T;
 
@@ -88,12 +109,14 @@ export default interface Result<T, E> {
    * Same as `unwrapErr()` except this method will never
    * throw, since `this` cannot be `ok` (because
    * the ok type is `never`).
+   * In debug mode (see `debugMode`), panics if `this` is `ok` anyway.
    */
   safeUnwrapErr(this: Result<never, any>): E;
 
   /**
    * Returns the inner value if `this` is `err`,
-   * otherwise throwing an error.
+   * otherwise throwing an `UnwrapError` whose `payload`
+   * is the inner value.
    */
   unwrapErr(): E;
 
@@ -111,7 +134,8 @@ export default interface Result<T, E> {
 
   /**
    * Returns the inner value if `this` is `ok`,
-   * otherwise throwing an error with the provided message.
+   * otherwise throwing an `UnwrapError` with the provided message,
+   * whose `payload` and `cause` are the inner error.
    *
    * @param message The message of the error to throw if `this` is `err`.
    */
@@ -128,7 +152,8 @@ export default interface Result<T, E> {
 
   /**
    * Returns the inner value if `this` is `err`,
-   * otherwise throwing an error with the provided message.
+   * otherwise throwing an `UnwrapError` with the provided message,
+   * whose `payload` is the inner value.
    *
    * @param message The message of the error to throw if `this` is `ok`.
    */
@@ -234,4 +259,308 @@ export default interface Result<T, E> {
    * If this is `err(e)`, so this returns `ok(e)`.
    */
   reverse(): Result<E, T>;
+
+  /**
+   * Returns the provided default if `this` is `err`,
+   * otherwise returns `mapper(t)` where `t` is the inner value.
+   *
+   * @param defaultValue The value to return if `this` is `err`.
+   * @param mapper A function that will be called if `this` is `ok`.
+   */
+  mapOr<D, R>(defaultValue: D, mapper: (value: T) => R): D | R;
+
+  /**
+   * Returns `defaultValueThunk(e)` if `this` is `err(e)`,
+   * otherwise returns `mapper(t)` where `t` is the inner value.
+   *
+   * Only one of the two callbacks is ever called.
+   *
+   * @param defaultValueThunk A callback that returns the value to return if `this` is `err`.
+   * @param mapper A function that will be called if `this` is `ok`.
+   */
+  mapOrElse<D, R>(
+    defaultValueThunk: (error: E) => D,
+    mapper: (value: T) => R,
+  ): D | R;
+
+  /**
+   * Calls the provided callback with the inner value
+   * if `this` is `ok`, then returns `this`.
+   *
+   * @param executor A callback that will be called if `this` is `ok`.
+   */
+  inspect(executor: (value: T) => void): Result<T, E>;
+
+  /**
+   * Calls the provided callback with the inner value
+   * if `this` is `err`, then returns `this`.
+   *
+   * @param executor A callback that will be called if `this` is `err`.
+   */
+  inspectErr(executor: (error: E) => void): Result<T, E>;
+
+  /**
+   * Same as `okSatisfies()`.
+   * Corresponds to Rust's `Result::is_ok_and()`.
+   */
+  isOkAnd(predicate: (value: T) => boolean): boolean;
+
+  /**
+   * Same as `errSatisfies()`.
+   * Corresponds to Rust's `Result::is_err_and()`.
+   */
+  isErrAnd(predicate: (error: E) => boolean): boolean;
+
+  /**
+   * Converts from `Result<Result<U, E2>, E>` to `Result<U, E | E2>`.
+   * Only removes one level of nesting.
+   */
+  flatten<U, E2>(this: Result<Result<U, E2>, E>): Result<U, E | E2>;
+
+  /**
+   * Returns the inner value of a result that cannot be `err`
+   * (because the error type is `never`).
+   *
+   * Same as `safeUnwrap()`.
+   * Corresponds to Rust's `Result::into_ok()`.
+   */
+  intoOk(this: Result<any, never>): T;
+
+  /**
+   * Returns the inner value of a result that cannot be `ok`
+   * (because the ok type is `never`).
+   *
+   * Same as `safeUnwrapErr()`.
+   * Corresponds to Rust's `Result::into_err()`.
+   */
+  intoErr(this: Result<never, any>): E;
+
+  /**
+   * If `this` is `err`, calls the provided callback with the inner value
+   * and returns the callback's return value.
+   * Otherwise, returns the `ok` untouched.
+   *
+   * This is the `err` counterpart of `andThen()`, and is equivalent to `orElse()`.
+   * The callback is called lazily (i.e., if `this` is `ok`, the callback
+   * will never be called).
+   *
+   * @param flatMapper A function that returns a `Result` to return if `this` is `err`.
+   */
+  andThenErr<T2, E2>(
+    flatMapper: (error: E) => Result<T2, E2>,
+  ): Result<T | T2, E2>;
+
+  /**
+   * Returns a new `Result` of the same variant whose inner value
+   * is a deep copy of the inner value of `this`.
+   *
+   * Arrays, `Map`s, `Set`s, `Date`s, `Error`s, and objects (including
+   * class instances, whose prototypes are preserved) are copied recursively.
+   * `ArrayBuffer`s and typed arrays are copied with `slice()`.
+   * Primitives, functions, and other built-in objects (e.g., `RegExp`s)
+   * are reused as-is.
+   *
+   * Similar to Rust's `Result::cloned()`.
+   */
+  cloned(): Result<T, E>;
+
+  /**
+   * Returns the inner value if `this` is `ok`,
+   * otherwise calls the provided factory and returns its return value.
+   *
+   * Unlike `unwrapOrElse()`, the factory is not passed the error
+   * and must return a value of the ok type.
+   * The factory is called lazily (i.e., if `this` is `ok`, the factory
+   * will never be called because there is no need for a default value).
+   *
+   * @param defaultFactory A callback that returns the value to return if `this` is `err`.
+   */
+  unwrapOrDefault(defaultFactory: () => T): T;
+
+  /**
+   * Returns `this` if `this` is `ok`, otherwise wraps the error
+   * in a `ContextError` that describes what was being attempted.
+   *
+   * Calling this at each layer that an error passes through builds
+   * a chain of contexts that ends with the original error.
+   *
+   * Corresponds to anyhow's `Context::context()`.
+   *
+   * @param context A description of what was being attempted.
+   */
+  context(context: string): Result<T, ContextError<E>>;
+
+  /**
+   * Returns `this` if `this` is `ok`, otherwise wraps the error
+   * in a `ContextError` whose context is returned by the provided thunk.
+   *
+   * The thunk is called lazily, so it may do work (e.g., formatting)
+   * that is only needed when there is an error.
+   *
+   * Corresponds to anyhow's `Context::with_context()`.
+   *
+   * @param contextThunk A function that is passed the error
+   * and returns a description of what was being attempted.
+   */
+  withContext(contextThunk: (error: E) => string): Result<T, ContextError<E>>;
+
+  /**
+   * Returns whether `this` and `other` are both `ok` with equal inner values,
+   * or both `err` with equal inner values.
+   *
+   * @param other The `Result` to compare `this` with.
+   * @param equalsOk The equality function for `ok` values.
+   * @param equalsErr The equality function for `err` values.
+   * Both default to a deep equality that compares options, results,
+   * arrays, and plain objects structurally.
+   */
+  equals(
+    other: Result<T, E>,
+    equalsOk?: (a: T, b: T) => boolean,
+    equalsErr?: (a: E, b: E) => boolean,
+  ): boolean;
+
+  /**
+   * Compares `this` with `other` like Rust's derived `Ord`:
+   * every `ok` is less than every `err`, and two results of the same
+   * variant are ordered by their inner values.
+   *
+   * Returns a negative number if `this < other`, zero if they are equal,
+   * and a positive number if `this > other`.
+   *
+   * @param other The `Result` to compare `this` with.
+   * @param compareOk The comparator for `ok` values.
+   * @param compareErr The comparator for `err` values.
+   * Both default to a deep comparator that orders numbers numerically,
+   * strings by code unit, and options, results, arrays, and plain objects
+   * lexicographically.
+   */
+  compare(
+    other: Result<T, E>,
+    compareOk?: (a: T, b: T) => number,
+    compareErr?: (a: E, b: E) => number,
+  ): number;
+
+  /**
+   * Returns an unsigned 32-bit hash of `this` that is stable across runs
+   * and consistent with `equals()`.
+   *
+   * @param hashOk The hash function for `ok` values.
+   * @param hashErr The hash function for `err` values.
+   * Both default to a deep hash that is consistent with the default equality.
+   */
+  hash(hashOk?: (value: T) => number, hashErr?: (error: E) => number): number;
+
+  /**
+   * Returns `{ Ok: t }` if `this` is `ok(t)`, or `{ Err: e }` if `this` is `err(e)`,
+   * matching serde's default (externally tagged) representation of `Result`.
+   *
+   * `JSON.stringify()` calls this method, so results (and options)
+   * nested in the inner value are converted too.
+   * Use `serde.encode()` for the other representations,
+   * and `serde.decode()` to revive the JSON.
+   */
+  toJSON(): { Ok: T } | { Err: E };
+
+  /**
+   * Returns a Rust-style debug representation of `this`,
+   * e.g., `Ok(42)` or `Err("boom")`.
+   *
+   * Results also print this way with `console.log()` and `util.inspect()`
+   * in Node, and `Object.prototype.toString.call()` returns `"[object Result]"`.
+   *
+   * @param options Whether to pretty-print like Rust's `{:#?}`,
+   * and how deeply to print nested values.
+   */
+  toString(options?: DebugOptions): string;
+
+  /**
+   * Returns an `Iter` that yields the inner value if `this` is `ok`,
+   * or nothing if `this` is `err`.
+   *
+   * Corresponds to Rust's `Result::iter()`.
+   */
+  iter(): Iter<T>;
+
+  /**
+   * Allows `this` to be used with `yield*` inside a `result.gen()` block.
+   *
+   * The iterator yields a single tagged step (`["ok", value]` or `["err", error]`)
+   * that `result.gen()` inspects.
+   * If `this` is `ok`, `yield* this.bind()` evaluates to the inner value.
+   * Otherwise, `result.gen()` short-circuits and returns `err(error)`.
+   */
+  bind(): Generator<["ok", unknown] | ["err", E], T, unknown>;
+
+  /**
+   * Yields the inner value if `this` is `ok`,
+   * or nothing if `this` is `err`,
+   * so that results work with `for...of` and spread.
+   */
+  [Symbol.iterator](): Iterator<T>;
+}
+
+/**
+ * The `ok` variant of a `Result`.
+ */
+export interface Ok<T, E> extends BaseResult<T, E> {
+  readonly kind: "ok";
+
+  /**
+   * The inner value of `this`.
+   */
+  readonly value: T;
+
+  /**
+   * Same as `unwrap()` except this method will never
+   * throw, since `this` is known to be `ok`.
+   */
+  safeUnwrap(): T;
+
+  /**
+   * Same as `safeUnwrap()`.
+   */
+  intoOk(): T;
+}
+
+/**
+ * The `err` variant of a `Result`.
+ */
+export interface Err<T, E> extends BaseResult<T, E> {
+  readonly kind: "err";
+
+  /**
+   * The inner value of `this`.
+   */
+  readonly error: E;
+
+  /**
+   * Same as `unwrapErr()` except this method will never
+   * throw, since `this` is known to be `err`.
+   */
+  safeUnwrapErr(): E;
+
+  /**
+   * Same as `safeUnwrapErr()`.
+   */
+  intoErr(): E;
 }
+
+/**
+ * Represents a success (`ok`) or failure (`err`).
+ *
+ * Use `isOk()` or `isErr()` (or check `kind`) to narrow a `Result`
+ * to one of its variants.
+ * For example:
+ *
+ * ```ts
+ * if (res.isOk()) {
+ *   console.log(res.value);
+ * } else {
+ *   console.error(res.error);
+ * }
+ * ```
+ */
+type Result<T, E> = Ok<T, E> | Err<T, E>;
+
+export default Result;
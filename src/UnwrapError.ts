@@ -0,0 +1,31 @@
+/**
+ * An error that occurs when `unwrap()` or `expect()`
+ * is called on `option.none()` or `result.err()`, or
+ * `unwrapErr()` or `expectErr()` is called on `result.ok()`.
+ *
+ * `payload` holds what was found instead of the expected value:
+ * the error of an `err`, the value of an `ok`, or `undefined` for `none`.
+ */
+export default class UnwrapError<P = unknown> extends Error {
+  /**
+   * The error of the `err` that was unwrapped, if any.
+   * Mirrors the standard `Error.prototype.cause`, so loggers
+   * and debuggers that follow causes will show it.
+   */
+  readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    readonly payload: P,
+    options: { cause?: unknown } = {},
+  ) {
+    super(message);
+    this.name = "UnwrapError";
+    if ("cause" in options) {
+      this.cause = options.cause;
+    }
+    // Restores the prototype chain, which extending `Error` breaks
+    // when compiling to ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
@@ -0,0 +1,556 @@
+import Option from "./Option";
+import OptionImpl from "./private/OptionImpl";
+import Result from "./Result";
+import ResultImpl from "./private/ResultImpl";
+
+/**
+ * Describes why bytes could not be decoded by a bincode `Codec`.
+ *
+ * `offset` is the index of the byte where decoding failed.
+ */
+export type BincodeDecodeError =
+  | { kind: "unexpectedEnd"; offset: number }
+  | { kind: "invalidTag"; offset: number; tag: number }
+  | { kind: "invalidBool"; offset: number; byte: number }
+  | { kind: "invalidUtf8"; offset: number }
+  | { kind: "lengthOverflow"; offset: number; length: bigint }
+  | { kind: "trailingBytes"; offset: number };
+
+/**
+ * Reads and writes values of type `T` using bincode's
+ * (version 1, default configuration) binary layout:
+ * little-endian fixed-width integers and `u64` length prefixes.
+ *
+ * Codecs are created with the functions in `bincode`
+ * and can be composed (e.g., `bincode.option(bincode.vec(bincode.u32()))`).
+ */
+export interface Codec<T> {
+  /**
+   * Appends the encoding of `value` to `bytes`.
+   *
+   * Throws a `RangeError` if `value` cannot be represented
+   * (e.g., a negative number passed to an unsigned integer codec).
+   */
+  write(value: T, bytes: number[]): void;
+
+  /**
+   * Decodes a value starting at `offset`, returning the value
+   * and the offset of the first byte after it.
+   */
+  read(
+    bytes: Uint8Array,
+    offset: number,
+  ): Result<{ value: T; offset: number }, BincodeDecodeError>;
+}
+
+/**
+ * The type that a `Codec` reads and writes.
+ *
+ * For example, `CodecType<Codec<Option<string>>>` is `Option<string>`.
+ */
+export type CodecType<C> = C extends Codec<infer T> ? T : never;
+
+type Read<T> = Result<{ value: T; offset: number }, BincodeDecodeError>;
+
+export const bincode = {
+  /**
+   * Encodes a value into bytes.
+   *
+   * @param value The value to encode.
+   * @param codec The codec for the type of `value`.
+   */
+  encode<T>(value: T, codec: Codec<T>): Uint8Array {
+    const bytes: number[] = [];
+    codec.write(value, bytes);
+    return Uint8Array.from(bytes);
+  },
+
+  /**
+   * Decodes a value from bytes.
+   *
+   * Returns `err` if the bytes are not a valid encoding,
+   * or if there are bytes left over after the value.
+   *
+   * @param bytes The bytes to decode.
+   * @param codec The codec for the type of the encoded value.
+   */
+  decode<T>(bytes: Uint8Array, codec: Codec<T>): Result<T, BincodeDecodeError> {
+    return codec.read(bytes, 0).andThen(read =>
+      read.offset === bytes.length
+        ? ResultImpl.ok<T, BincodeDecodeError>(read.value)
+        : ResultImpl.err<T, BincodeDecodeError>({
+            kind: "trailingBytes",
+            offset: read.offset,
+          }),
+    );
+  },
+
+  u8(): Codec<number> {
+    return integerCodec(1, false);
+  },
+
+  u16(): Codec<number> {
+    return integerCodec(2, false);
+  },
+
+  u32(): Codec<number> {
+    return integerCodec(4, false);
+  },
+
+  u64(): Codec<bigint> {
+    return bigIntegerCodec(false);
+  },
+
+  i8(): Codec<number> {
+    return integerCodec(1, true);
+  },
+
+  i16(): Codec<number> {
+    return integerCodec(2, true);
+  },
+
+  i32(): Codec<number> {
+    return integerCodec(4, true);
+  },
+
+  i64(): Codec<bigint> {
+    return bigIntegerCodec(true);
+  },
+
+  f32(): Codec<number> {
+    return fixedWidthCodec(
+      4,
+      (view, value) => view.setFloat32(0, value, true),
+      view => view.getFloat32(0, true),
+    );
+  },
+
+  f64(): Codec<number> {
+    return fixedWidthCodec(
+      8,
+      (view, value) => view.setFloat64(0, value, true),
+      view => view.getFloat64(0, true),
+    );
+  },
+
+  /**
+   * Encodes `false` as `0` and `true` as `1`.
+   */
+  bool(): Codec<boolean> {
+    return {
+      write(value, bytes) {
+        bytes.push(value ? 1 : 0);
+      },
+      read(bytes, offset): Read<boolean> {
+        return readByte(bytes, offset).andThen(byte =>
+          byte === 0 || byte === 1
+            ? ResultImpl.ok({
+                value: byte === 1,
+                offset: offset + 1,
+              })
+            : ResultImpl.err({ kind: "invalidBool", offset, byte }),
+        );
+      },
+    };
+  },
+
+  /**
+   * Encodes a string as a `u64` byte length followed by its UTF-8 bytes,
+   * like Rust's `String`.
+   */
+  string(): Codec<string> {
+    const bytesCodec = bincode.bytes();
+    return {
+      write(value, bytes) {
+        bytesCodec.write(Uint8Array.from(encodeUtf8(value)), bytes);
+      },
+      read(bytes, offset) {
+        return bytesCodec.read(bytes, offset).andThen(read =>
+          decodeUtf8(read.value)
+            .map(value => ({ value, offset: read.offset }))
+            .okOrElse<BincodeDecodeError>(() => ({
+              kind: "invalidUtf8",
+              offset,
+            })),
+        );
+      },
+    };
+  },
+
+  /**
+   * Encodes bytes as a `u64` length followed by the bytes,
+   * like Rust's `Vec<u8>`.
+   */
+  bytes(): Codec<Uint8Array> {
+    return {
+      write(value, bytes) {
+        writeLength(value.length, bytes);
+        for (let i = 0; i < value.length; i++) {
+          bytes.push(value[i]);
+        }
+      },
+      read(bytes, offset) {
+        return readLength(bytes, offset).andThen(length =>
+          length.offset + length.value > bytes.length
+            ? ResultImpl.err({ kind: "unexpectedEnd", offset: bytes.length })
+            : ResultImpl.ok({
+                value: bytes.slice(length.offset, length.offset + length.value),
+                offset: length.offset + length.value,
+              }),
+        );
+      },
+    };
+  },
+
+  /**
+   * Encodes an array as a `u64` length followed by each item,
+   * like Rust's `Vec<T>`.
+   *
+   * @param item The codec for each item.
+   */
+  vec<T>(item: Codec<T>): Codec<T[]> {
+    return {
+      write(value, bytes) {
+        writeLength(value.length, bytes);
+        value.forEach(v => item.write(v, bytes));
+      },
+      read(bytes, offset) {
+        return readLength(bytes, offset).andThen(length => {
+          const values: T[] = [];
+          let next = length.offset;
+          for (let i = 0; i < length.value; i++) {
+            const read = item.read(bytes, next);
+            if (read.isErr()) {
+              return ResultImpl.err(read.error);
+            }
+            values.push(read.value.value);
+            next = read.value.offset;
+          }
+          return ResultImpl.ok({ value: values, offset: next });
+        });
+      },
+    };
+  },
+
+  /**
+   * Encodes each field in order, with no header,
+   * like a Rust struct.
+   * The fields are encoded in the order that their keys
+   * appear in `fields`, which must match the order
+   * in which the Rust struct declares them.
+   *
+   * @param fields The codec for each field.
+   */
+  struct<S extends { [key: string]: Codec<any> }>(
+    fields: S,
+  ): Codec<{ [K in keyof S]: CodecType<S[K]> }> {
+    const keys = Object.keys(fields) as (keyof S & string)[];
+    return {
+      write(value, bytes) {
+        keys.forEach(key => fields[key].write(value[key], bytes));
+      },
+      read(bytes, offset) {
+        const value = {} as { [K in keyof S]: CodecType<S[K]> };
+        let next = offset;
+        for (let i = 0; i < keys.length; i++) {
+          const key = keys[i];
+          const read = fields[key].read(bytes, next);
+          if (read.isErr()) {
+            return ResultImpl.err(read.error);
+          }
+          value[key] = read.value.value;
+          next = read.value.offset;
+        }
+        return ResultImpl.ok({ value, offset: next });
+      },
+    };
+  },
+
+  /**
+   * Encodes `none` as the byte `0`, and `some(t)` as the byte `1`
+   * followed by `t`.
+   *
+   * @param inner The codec for the wrapped value.
+   */
+  option<T>(inner: Codec<T>): Codec<Option<T>> {
+    return {
+      write(value, bytes) {
+        value.match({
+          none: () => {
+            bytes.push(0);
+          },
+          some: v => {
+            bytes.push(1);
+            inner.write(v, bytes);
+          },
+        });
+      },
+      read(bytes, offset): Read<Option<T>> {
+        return readByte(bytes, offset).andThen(tag => {
+          if (tag === 0) {
+            return ResultImpl.ok({
+              value: OptionImpl.none<T>(),
+              offset: offset + 1,
+            });
+          }
+          if (tag === 1) {
+            return inner.read(bytes, offset + 1).map(read => ({
+              value: OptionImpl.some(read.value),
+              offset: read.offset,
+            }));
+          }
+          return ResultImpl.err({ kind: "invalidTag", offset, tag });
+        });
+      },
+    };
+  },
+
+  /**
+   * Encodes `ok(t)` as the `u32` variant index `0` followed by `t`,
+   * and `err(e)` as the `u32` variant index `1` followed by `e`.
+   *
+   * @param ok The codec for the `ok` value.
+   * @param err The codec for the `err` value.
+   */
+  result<T, E>(ok: Codec<T>, err: Codec<E>): Codec<Result<T, E>> {
+    const variantCodec = bincode.u32();
+    return {
+      write(value, bytes) {
+        value.match({
+          ok: v => {
+            variantCodec.write(0, bytes);
+            ok.write(v, bytes);
+          },
+          err: e => {
+            variantCodec.write(1, bytes);
+            err.write(e, bytes);
+          },
+        });
+      },
+      read(bytes, offset): Read<Result<T, E>> {
+        return variantCodec.read(bytes, offset).andThen(variant => {
+          if (variant.value === 0) {
+            return ok.read(bytes, variant.offset).map(read => ({
+              value: ResultImpl.ok<T, E>(read.value),
+              offset: read.offset,
+            }));
+          }
+          if (variant.value === 1) {
+            return err.read(bytes, variant.offset).map(read => ({
+              value: ResultImpl.err<T, E>(read.value),
+              offset: read.offset,
+            }));
+          }
+          return ResultImpl.err({
+            kind: "invalidTag",
+            offset,
+            tag: variant.value,
+          });
+        });
+      },
+    };
+  },
+};
+
+function fixedWidthCodec<T>(
+  width: number,
+  set: (view: DataView, value: T) => void,
+  get: (view: DataView) => T,
+): Codec<T> {
+  return {
+    write(value, bytes) {
+      const buffer = new Uint8Array(width);
+      set(new DataView(buffer.buffer), value);
+      for (let i = 0; i < width; i++) {
+        bytes.push(buffer[i]);
+      }
+    },
+    read(bytes, offset) {
+      if (offset + width > bytes.length) {
+        return ResultImpl.err({ kind: "unexpectedEnd", offset: bytes.length });
+      }
+      const view = new DataView(bytes.buffer, bytes.byteOffset + offset, width);
+      return ResultImpl.ok({ value: get(view), offset: offset + width });
+    },
+  };
+}
+
+function integerCodec(width: 1 | 2 | 4, signed: boolean): Codec<number> {
+  const bits = width * 8;
+  const min = signed ? -Math.pow(2, bits - 1) : 0;
+  const max = signed ? Math.pow(2, bits - 1) - 1 : Math.pow(2, bits) - 1;
+  return fixedWidthCodec<number>(
+    width,
+    (view, value) => {
+      if (!(Math.floor(value) === value && min <= value && value <= max)) {
+        throw new RangeError(
+          `Cannot encode ${value} as ${signed ? "i" : "u"}${bits}.`,
+        );
+      }
+      if (width === 1) {
+        view.setUint8(0, value & 0xff);
+      } else if (width === 2) {
+        view.setUint16(0, value & 0xffff, true);
+      } else {
+        view.setUint32(0, value >>> 0, true);
+      }
+    },
+    view => {
+      if (width === 1) {
+        return signed ? view.getInt8(0) : view.getUint8(0);
+      } else if (width === 2) {
+        return signed ? view.getInt16(0, true) : view.getUint16(0, true);
+      } else {
+        return signed ? view.getInt32(0, true) : view.getUint32(0, true);
+      }
+    },
+  );
+}
+
+function bigIntegerCodec(signed: boolean): Codec<bigint> {
+  // `**` is compiled to `Math.pow()`, which does not accept bigints.
+  const min = signed ? -BigInt("0x8000000000000000") : BigInt(0);
+  const max = signed
+    ? BigInt("0x7fffffffffffffff")
+    : BigInt("0xffffffffffffffff");
+  return fixedWidthCodec<bigint>(
+    8,
+    (view, value) => {
+      if (value < min || value > max) {
+        throw new RangeError(
+          `Cannot encode ${value} as ${signed ? "i" : "u"}64.`,
+        );
+      }
+      if (signed) {
+        view.setBigInt64(0, value, true);
+      } else {
+        view.setBigUint64(0, value, true);
+      }
+    },
+    view => (signed ? view.getBigInt64(0, true) : view.getBigUint64(0, true)),
+  );
+}
+
+function readByte(
+  bytes: Uint8Array,
+  offset: number,
+): Result<number, BincodeDecodeError> {
+  return offset < bytes.length
+    ? ResultImpl.ok(bytes[offset])
+    : ResultImpl.err({ kind: "unexpectedEnd", offset: bytes.length });
+}
+
+function writeLength(length: number, bytes: number[]): void {
+  bincode.u64().write(BigInt(length), bytes);
+}
+
+function readLength(bytes: Uint8Array, offset: number): Read<number> {
+  return bincode
+    .u64()
+    .read(bytes, offset)
+    .andThen(
+      (read): Read<number> =>
+        read.value > BigInt(Number.MAX_SAFE_INTEGER)
+          ? ResultImpl.err({
+              kind: "lengthOverflow",
+              offset,
+              length: read.value,
+            })
+          : ResultImpl.ok({ value: Number(read.value), offset: read.offset }),
+    );
+}
+
+function encodeUtf8(value: string): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    let codePoint = value.charCodeAt(i);
+    if (
+      0xd800 <= codePoint &&
+      codePoint <= 0xdbff &&
+      i + 1 < value.length &&
+      0xdc00 <= value.charCodeAt(i + 1) &&
+      value.charCodeAt(i + 1) <= 0xdfff
+    ) {
+      codePoint =
+        0x10000 +
+        ((codePoint - 0xd800) << 10) +
+        (value.charCodeAt(i + 1) - 0xdc00);
+      i++;
+    } else if (0xd800 <= codePoint && codePoint <= 0xdfff) {
+      // Lone surrogates are replaced with U+FFFD, like `TextEncoder` does.
+      codePoint = 0xfffd;
+    }
+
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(
+        0xe0 | (codePoint >> 12),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f),
+      );
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f),
+      );
+    }
+  }
+  return bytes;
+}
+
+function decodeUtf8(bytes: Uint8Array): Option<string> {
+  let value = "";
+  let i = 0;
+  while (i < bytes.length) {
+    const first = bytes[i];
+    const width =
+      first < 0x80
+        ? 1
+        : first < 0xc2
+        ? 0
+        : first < 0xe0
+        ? 2
+        : first < 0xf0
+        ? 3
+        : first < 0xf5
+        ? 4
+        : 0;
+    if (width === 0 || i + width > bytes.length) {
+      return OptionImpl.none();
+    }
+
+    let codePoint = width === 1 ? first : first & (0xff >> (width + 1));
+    for (let j = 1; j < width; j++) {
+      const continuation = bytes[i + j];
+      if ((continuation & 0xc0) !== 0x80) {
+        return OptionImpl.none();
+      }
+      codePoint = (codePoint << 6) | (continuation & 0x3f);
+    }
+    const minimum = [0, 0, 0x80, 0x800, 0x10000][width];
+    if (
+      codePoint < minimum ||
+      codePoint > 0x10ffff ||
+      (0xd800 <= codePoint && codePoint <= 0xdfff)
+    ) {
+      return OptionImpl.none();
+    }
+
+    if (codePoint < 0x10000) {
+      value += String.fromCharCode(codePoint);
+    } else {
+      const offset = codePoint - 0x10000;
+      value += String.fromCharCode(
+        0xd800 + (offset >> 10),
+        0xdc00 + (offset & 0x3ff),
+      );
+    }
+    i += width;
+  }
+  return OptionImpl.some(value);
+}
@@ -0,0 +1,527 @@
+import Option from "./Option";
+import Result from "./Result";
+import Random from "./private/Random";
+import ResultImpl from "./private/ResultImpl";
+import debugFormat from "./private/debugFormat";
+import optionExamples from "./private/optionExamples";
+import resultExamples from "./private/resultExamples";
+import { deepEquals, deepHash } from "./private/structural";
+
+/**
+ * Creates instances of an `Option` implementation.
+ *
+ * The `option` namespace is an `OptionFactory` for the default implementation.
+ */
+export interface OptionFactory {
+  some<T>(value: T): Option<T>;
+  none<T = never>(): Option<T>;
+}
+
+/**
+ * Creates instances of a `Result` implementation.
+ *
+ * The `result` namespace is a `ResultFactory` for the default implementation.
+ */
+export interface ResultFactory {
+  ok<T, E = never>(value: T): Result<T, E>;
+  err<E, T = never>(error: E): Result<T, E>;
+}
+
+export interface ConformanceOptions {
+  /**
+   * The seed of the random inputs.
+   * Reuse the seed from a failure message to reproduce the failure.
+   * Defaults to `42`.
+   */
+  seed?: number;
+
+  /**
+   * How many random inputs each check is run against. Defaults to `100`.
+   */
+  runs?: number;
+}
+
+/**
+ * A law or behavior that an implementation must satisfy.
+ */
+export interface ConformanceCheck {
+  name: string;
+
+  /**
+   * Returns `ok` if the implementation satisfies the check
+   * for every input, otherwise returns `err` with a message
+   * describing the first counterexample.
+   */
+  run(): Result<void, string>;
+}
+
+export const conformance = {
+  /**
+   * Returns checks that an `Option` implementation behaves like
+   * Rust's `Option`: `map()` obeys the functor laws, `andThen()` obeys
+   * the monad laws, and methods that take thunks only call them when
+   * the result depends on them. It also returns one example-based check
+   * per method, covering the behavior the default implementation is
+   * tested against.
+   *
+   * Run each check from your test framework, e.g., with Jest:
+   *
+   * ```ts
+   * conformance.option(myFactory).forEach(check => {
+   *   test(check.name, () => {
+   *     expect(check.run().isOk()).toBe(true);
+   *   });
+   * });
+   * ```
+   *
+   * @param factory Creates instances of the implementation to check.
+   * @param options The seed and number of random inputs.
+   */
+  option(
+    factory: OptionFactory,
+    options: ConformanceOptions = {},
+  ): ConformanceCheck[] {
+    const randomOption = (random: Random) =>
+      random.bool() ? factory.some(random.value()) : factory.none<unknown>();
+    const randomOptionFunction = (random: Random) => {
+      const f = randomFunction(random);
+      const parity = random.int(0, 3);
+      return (value: unknown) =>
+        deepHash(value) % 3 === parity
+          ? factory.none<unknown>()
+          : factory.some(f(value));
+    };
+
+    return [
+      check(
+        "Option: isSome() and isNone() agree with match()",
+        options,
+        random => [randomOption(random)] as const,
+        ([opt]) =>
+          opt.match({
+            none: () => opt.isNone() && !opt.isSome(),
+            some: () => opt.isSome() && !opt.isNone(),
+          }),
+      ),
+
+      check(
+        "Option: some(x).unwrap() returns x, and none().unwrap() throws",
+        options,
+        random => [random.value()] as const,
+        ([value]) =>
+          deepEquals(factory.some(value).unwrap(), value) &&
+          throws(() => factory.none().unwrap()),
+      ),
+
+      check(
+        "Option: map() preserves identity",
+        options,
+        random => [randomOption(random)] as const,
+        ([opt]) =>
+          sameOption(
+            opt.map(value => value),
+            opt,
+          ),
+      ),
+
+      check(
+        "Option: map() preserves composition",
+        options,
+        random =>
+          [
+            randomOption(random),
+            randomFunction(random),
+            randomFunction(random),
+          ] as const,
+        ([opt, f, g]) =>
+          sameOption(
+            opt.map(f).map(g),
+            opt.map(value => g(f(value))),
+          ),
+      ),
+
+      check(
+        "Option: some() is a left identity of andThen()",
+        options,
+        random => [random.value(), randomOptionFunction(random)] as const,
+        ([value, f]) => sameOption(factory.some(value).andThen(f), f(value)),
+      ),
+
+      check(
+        "Option: some() is a right identity of andThen()",
+        options,
+        random => [randomOption(random)] as const,
+        ([opt]) =>
+          sameOption(
+            opt.andThen(value => factory.some(value)),
+            opt,
+          ),
+      ),
+
+      check(
+        "Option: andThen() is associative",
+        options,
+        random =>
+          [
+            randomOption(random),
+            randomOptionFunction(random),
+            randomOptionFunction(random),
+          ] as const,
+        ([opt, f, g]) =>
+          sameOption(
+            opt.andThen(f).andThen(g),
+            opt.andThen(value => f(value).andThen(g)),
+          ),
+      ),
+
+      check(
+        "Option: and(), or(), and xor() combine options like Rust",
+        options,
+        random => [randomOption(random), randomOption(random)] as const,
+        ([a, b]) =>
+          sameOption(a.and(b), a.isSome() ? b : a) &&
+          sameOption(a.or(b), a.isSome() ? a : b) &&
+          sameOption(
+            a.xor(b),
+            a.isSome() === b.isSome() ? factory.none() : a.isSome() ? a : b,
+          ),
+      ),
+
+      check(
+        "Option: filter() keeps exactly the values that satisfy the predicate",
+        options,
+        random => [randomOption(random), random.int(0, 2)] as const,
+        ([opt, parity]) => {
+          const predicate = (value: unknown) => deepHash(value) % 2 === parity;
+          return sameOption(
+            opt.filter(predicate),
+            opt.isSome() && predicate(opt.value) ? opt : factory.none(),
+          );
+        },
+      ),
+
+      check(
+        "Option: methods that take callbacks call them only when needed, and at most once",
+        options,
+        random => [random.value()] as const,
+        ([value]) => {
+          const some = () => factory.some(value);
+          const none = () => factory.none<unknown>();
+          return (
+            callCount(f => some().unwrapOrElse(f)) === 0 &&
+            callCount(f => none().unwrapOrElse(f)) === 1 &&
+            callCount(f => some().orElse(() => factory.some(f()))) === 0 &&
+            callCount(f => none().orElse(() => factory.some(f()))) === 1 &&
+            callCount(f => some().mapOrElse(f, x => x)) === 0 &&
+            callCount(f => none().mapOrElse(() => 0, f)) === 0 &&
+            callCount(f => some().okOrElse(f)) === 0 &&
+            callCount(f => none().okOrElse(f)) === 1 &&
+            callCount(f => some().getOrInsertWith(f)) === 0 &&
+            callCount(f => none().andLazy(() => factory.some(f()))) === 0 &&
+            callCount(f => some().andLazy(() => factory.some(f()))) === 1 &&
+            callCount(f => none().map(f)) === 0 &&
+            callCount(f => some().map(f)) === 1 &&
+            callCount(f => none().andThen(x => factory.some(f(x)))) === 0 &&
+            callCount(f => none().filter(x => Boolean(f(x)))) === 0
+          );
+        },
+      ),
+      ...optionExamples(factory),
+    ];
+  },
+
+  /**
+   * Returns checks that a `Result` implementation behaves like
+   * Rust's `Result`: `map()` and `mapErr()` obey the functor laws,
+   * `andThen()` and `orElse()` obey the monad laws, and methods that
+   * take callbacks only call them when the result depends on them.
+   * Like `conformance.option()`, it also returns one example-based check
+   * per method.
+   *
+   * Run each check from your test framework (see `conformance.option()`).
+   *
+   * @param factory Creates instances of the implementation to check.
+   * @param options The seed and number of random inputs.
+   */
+  result(
+    factory: ResultFactory,
+    options: ConformanceOptions = {},
+  ): ConformanceCheck[] {
+    const randomResult = (random: Random) =>
+      random.bool()
+        ? factory.ok<unknown, unknown>(random.value())
+        : factory.err<unknown, unknown>(random.value());
+    const randomResultFunction = (random: Random) => {
+      const f = randomFunction(random);
+      const parity = random.int(0, 3);
+      return (value: unknown) =>
+        deepHash(value) % 3 === parity
+          ? factory.err<unknown, unknown>(f(value))
+          : factory.ok<unknown, unknown>(f(value));
+    };
+
+    return [
+      check(
+        "Result: isOk() and isErr() agree with match()",
+        options,
+        random => [randomResult(random)] as const,
+        ([res]) =>
+          res.match({
+            ok: () => res.isOk() && !res.isErr(),
+            err: () => res.isErr() && !res.isOk(),
+          }),
+      ),
+
+      check(
+        "Result: unwrap() and unwrapErr() return the matching inner value and otherwise throw",
+        options,
+        random => [random.value()] as const,
+        ([value]) =>
+          deepEquals(factory.ok(value).unwrap(), value) &&
+          deepEquals(factory.err(value).unwrapErr(), value) &&
+          throws(() => factory.err(value).unwrap()) &&
+          throws(() => factory.ok(value).unwrapErr()),
+      ),
+
+      check(
+        "Result: map() and mapErr() preserve identity",
+        options,
+        random => [randomResult(random)] as const,
+        ([res]) =>
+          sameResult(
+            res.map(value => value),
+            res,
+          ) &&
+          sameResult(
+            res.mapErr(error => error),
+            res,
+          ),
+      ),
+
+      check(
+        "Result: map() and mapErr() preserve composition",
+        options,
+        random =>
+          [
+            randomResult(random),
+            randomFunction(random),
+            randomFunction(random),
+          ] as const,
+        ([res, f, g]) =>
+          sameResult(
+            res.map(f).map(g),
+            res.map(value => g(f(value))),
+          ) &&
+          sameResult(
+            res.mapErr(f).mapErr(g),
+            res.mapErr(error => g(f(error))),
+          ),
+      ),
+
+      check(
+        "Result: ok() is a left identity of andThen(), and err() of orElse()",
+        options,
+        random => [random.value(), randomResultFunction(random)] as const,
+        ([value, f]) =>
+          sameResult(factory.ok(value).andThen(f), f(value)) &&
+          sameResult(factory.err(value).orElse(f), f(value)),
+      ),
+
+      check(
+        "Result: ok() is a right identity of andThen(), and err() of orElse()",
+        options,
+        random => [randomResult(random)] as const,
+        ([res]) =>
+          sameResult(
+            res.andThen(value => factory.ok(value)),
+            res,
+          ) &&
+          sameResult(
+            res.orElse(error => factory.err(error)),
+            res,
+          ),
+      ),
+
+      check(
+        "Result: andThen() and orElse() are associative",
+        options,
+        random =>
+          [
+            randomResult(random),
+            randomResultFunction(random),
+            randomResultFunction(random),
+          ] as const,
+        ([res, f, g]) =>
+          sameResult(
+            res.andThen(f).andThen(g),
+            res.andThen(value => f(value).andThen(g)),
+          ) &&
+          sameResult(
+            res.orElse(f).orElse(g),
+            res.orElse(error => f(error).orElse(g)),
+          ),
+      ),
+
+      check(
+        "Result: and() and or() combine results like Rust",
+        options,
+        random => [randomResult(random), randomResult(random)] as const,
+        ([a, b]) =>
+          sameResult(a.and(b), a.isOk() ? b : a) &&
+          sameResult(a.or(b), a.isOk() ? a : b),
+      ),
+
+      check(
+        "Result: methods that take callbacks call them only when needed, and at most once",
+        options,
+        random => [random.value()] as const,
+        ([value]) => {
+          const ok = () => factory.ok<unknown, unknown>(value);
+          const err = () => factory.err<unknown, unknown>(value);
+          return (
+            callCount(f => ok().unwrapOrElse(f)) === 0 &&
+            callCount(f => err().unwrapOrElse(f)) === 1 &&
+            callCount(f => ok().orElse(e => factory.ok(f(e)))) === 0 &&
+            callCount(f => err().orElse(e => factory.ok(f(e)))) === 1 &&
+            callCount(f => ok().mapErr(f)) === 0 &&
+            callCount(f => err().mapErr(f)) === 1 &&
+            callCount(f => err().map(f)) === 0 &&
+            callCount(f => ok().map(f)) === 1 &&
+            callCount(f => err().andThen(x => factory.ok(f(x)))) === 0 &&
+            callCount(f => ok().mapOrElse(f, x => x)) === 0 &&
+            callCount(f => err().mapOrElse(() => 0, f)) === 0 &&
+            callCount(f => ok().unwrapOrDefault(f)) === 0 &&
+            callCount(f => err().unwrapOrDefault(f)) === 1
+          );
+        },
+      ),
+      ...resultExamples(factory),
+    ];
+  },
+};
+
+/**
+ * Creates a check that generates `runs` random inputs
+ * and fails on the first one for which `holds()` returns `false` or throws.
+ */
+function check<I extends readonly unknown[]>(
+  name: string,
+  options: ConformanceOptions,
+  generate: (random: Random) => I,
+  holds: (input: I) => boolean,
+): ConformanceCheck {
+  const seed = options.seed === undefined ? 42 : options.seed;
+  const runs = options.runs === undefined ? 100 : options.runs;
+  return {
+    name,
+    run() {
+      const random = Random.seeded(seed);
+      for (let i = 0; i < runs; i++) {
+        const input = generate(random);
+        let error: unknown;
+        let passed: boolean;
+        try {
+          passed = holds(input);
+        } catch (e) {
+          error = e;
+          passed = false;
+        }
+        if (!passed) {
+          return ResultImpl.err(
+            `${name} failed on run ${i + 1} of ${runs} (seed ${seed}) ` +
+              `for the input (${input.map(describe).join(", ")})` +
+              (error === undefined ? "." : `, throwing ${debugFormat(error)}.`),
+          );
+        }
+      }
+      return ResultImpl.ok(undefined);
+    },
+  };
+}
+
+/**
+ * Returns one of a few pure functions, so that laws are checked
+ * against functions that change the value's type and shape.
+ */
+function randomFunction(random: Random): (value: unknown) => unknown {
+  return random.pick<(value: unknown) => unknown>([
+    value => value,
+    value => [value],
+    value => ({ wrapped: value }),
+    value => typeof value,
+    value => deepHash(value),
+    value => debugFormat(value),
+  ]);
+}
+
+/**
+ * Returns how many times `use` calls the callback it is passed.
+ */
+function callCount(
+  use: (callback: (...args: unknown[]) => unknown) => unknown,
+): number {
+  let count = 0;
+  use(() => {
+    count++;
+    return count;
+  });
+  return count;
+}
+
+function throws(thunk: () => unknown): boolean {
+  try {
+    thunk();
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+function sameOption(a: Option<unknown>, b: Option<unknown>): boolean {
+  return a.match({
+    none: () => b.isNone(),
+    some: value => b.isSome() && deepEquals(value, b.value),
+  });
+}
+
+function sameResult(
+  a: Result<unknown, unknown>,
+  b: Result<unknown, unknown>,
+): boolean {
+  return a.match({
+    ok: value => b.isOk() && deepEquals(value, b.value),
+    err: error => b.isErr() && deepEquals(error, b.error),
+  });
+}
+
+/**
+ * Formats an input for a failure message.
+ * Options and results from the implementation under test
+ * are printed through `match()`, since they may not be branded.
+ */
+function describe(input: unknown): string {
+  if ("function" === typeof input) {
+    return "<function>";
+  }
+  if (
+    "object" === typeof input &&
+    input !== null &&
+    "function" === typeof (input as { match?: unknown }).match
+  ) {
+    const matchable = input as {
+      match(matcher: {
+        none: () => string;
+        some: (value: unknown) => string;
+        ok: (value: unknown) => string;
+        err: (error: unknown) => string;
+      }): string;
+    };
+    return matchable.match({
+      none: () => "None",
+      some: value => `Some(${debugFormat(value)})`,
+      ok: value => `Ok(${debugFormat(value)})`,
+      err: error => `Err(${debugFormat(error)})`,
+    });
+  }
+  return debugFormat(input);
+}
@@ -0,0 +1,48 @@
+import {
+  debugChecksEnabled,
+  disableDebugChecks,
+  enableDebugChecks,
+} from "./private/debugChecks";
+
+/**
+ * Controls debug mode, which validates at runtime what the type system
+ * would otherwise be trusted to guarantee. This catches misuse that
+ * slips past the compiler through `any` or casts.
+ *
+ * While debug mode is enabled:
+ *
+ * - Options and results are frozen when they are created.
+ * - `safeUnwrap()` and `intoOk()` panic on `err`, and
+ *   `safeUnwrapErr()` and `intoErr()` panic on `ok`.
+ * - `flatten()` and `transpose()` panic if the wrapped value
+ *   is not an option or result created by this package.
+ * - `match()` panics if the matcher's arms are not functions.
+ *
+ * Debug mode is disabled by default. Enabling it swaps in checked
+ * versions of these methods, and disabling it restores the originals,
+ * so it adds no overhead while disabled.
+ */
+export const debugMode = {
+  /**
+   * Enables debug mode.
+   * Does nothing if debug mode is already enabled.
+   */
+  enable(): void {
+    enableDebugChecks();
+  },
+
+  /**
+   * Disables debug mode.
+   * Options and results created while it was enabled stay frozen.
+   */
+  disable(): void {
+    disableDebugChecks();
+  },
+
+  /**
+   * Returns `true` if debug mode is enabled.
+   */
+  isEnabled(): boolean {
+    return debugChecksEnabled();
+  },
+};
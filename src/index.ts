@@ -1,10 +1,83 @@
-import Option from "./Option";
+import AsyncOption from "./AsyncOption";
+import AsyncOptionImpl from "./private/AsyncOptionImpl";
+import AsyncResult from "./AsyncResult";
+import AsyncResultImpl from "./private/AsyncResultImpl";
+import Iter from "./Iter";
+import IterImpl from "./private/IterImpl";
+import Option, { BaseOption } from "./Option";
 import OptionImpl from "./private/OptionImpl";
-import Result from "./Result";
+import Result, { BaseResult } from "./Result";
 import ResultImpl from "./private/ResultImpl";
 
-export { default as Option } from "./Option";
-export { default as Result } from "./Result";
+export { default as AsyncOption } from "./AsyncOption";
+export { default as AsyncResult } from "./AsyncResult";
+export { BincodeDecodeError, Codec, CodecType, bincode } from "./bincode";
+export { default as ContextError } from "./ContextError";
+export {
+  ConformanceCheck,
+  ConformanceOptions,
+  OptionFactory,
+  ResultFactory,
+  conformance,
+} from "./conformance";
+export { default as DebugOptions } from "./DebugOptions";
+export { debugMode } from "./debugMode";
+export { default as Iter } from "./Iter";
+export { default as Option, BaseOption, None, Some } from "./Option";
+export {
+  PanicHook,
+  PanicInfo,
+  assert,
+  assertEq,
+  panic,
+  panicking,
+  todo,
+  unreachable,
+} from "./panic";
+export { default as Result, BaseResult, Err, Ok } from "./Result";
+export { default as UnwrapError } from "./UnwrapError";
+export { DecodeError, ResultTagging, Shape, ShapeType, serde } from "./serde";
+
+/**
+ * An array that contains at least one element.
+ */
+export type NonEmptyArray<T> = [T, ...T[]];
+
+/**
+ * The type of the value wrapped by an `Option`.
+ *
+ * For example, `SomeType<Option<string>>` is `string`.
+ */
+export type SomeType<O> = O extends Option<infer T> ? T : never;
+
+/**
+ * The type of the `ok` value of a `Result`.
+ *
+ * For example, `OkType<Result<string, Error>>` is `string`.
+ */
+export type OkType<R> = R extends Result<infer T, unknown> ? T : never;
+
+/**
+ * The type of the `err` value of a `Result`.
+ * Distributes over unions, so `ErrType<Result<A, E1> | Result<B, E2>>`
+ * is `E1 | E2`.
+ */
+export type ErrType<R> = R extends Result<unknown, infer E> ? E : never;
+
+/**
+ * Maps a tuple (or array) of options and/or results to a tuple
+ * (or array) of the types of the values they wrap.
+ *
+ * For example, `UnwrapAll<[Option<string>, Result<number, Error>]>`
+ * is `[string, number]`.
+ */
+export type UnwrapAll<Tuple> = {
+  [K in keyof Tuple]: Tuple[K] extends Option<infer T>
+    ? T
+    : Tuple[K] extends Result<infer T, unknown>
+    ? T
+    : never;
+};
 
 export const option = {
   /**
@@ -25,6 +98,59 @@ export const option = {
     return OptionImpl.none();
   },
 
+  /**
+   * Returns whether the provided value is an `Option` created by rusty-ts.
+   *
+   * Unlike `instanceof`, this also recognizes options created by
+   * other copies of rusty-ts (e.g., duplicates in `node_modules`)
+   * and in other realms (e.g., `vm` contexts), since it checks for
+   * a brand registered with `Symbol.for()`.
+   * Options sent to a worker lose their prototype when they are cloned,
+   * so encode them with `serde` or `bincode` instead.
+   *
+   * @param value The value to check.
+   */
+  isOption(value: unknown): value is Option<unknown> {
+    return OptionImpl.isOption(value);
+  },
+
+  /**
+   * Converts any object that implements `match()` like an `Option`
+   * (e.g., an option from another copy of rusty-ts, or a third-party
+   * implementation) into an option created by this copy of rusty-ts.
+   *
+   * Returns the provided option itself if it already is one.
+   *
+   * @param opt The object to convert.
+   */
+  adapt<T>(opt: Pick<BaseOption<T>, "match">): Option<T> {
+    return OptionImpl.adapt(opt);
+  },
+
+  /**
+   * A comparator for `Array.prototype.sort()` that orders options
+   * like Rust's derived `Ord` (`none` first, then `some`s ordered by
+   * their wrapped values).
+   *
+   * Same as `a.compare(b)`.
+   */
+  compare<T>(a: Option<T>, b: Option<T>): number {
+    return a.compare(b);
+  },
+
+  /**
+   * Returns a comparator for `Array.prototype.sort()` that orders options
+   * like `option.compare()`, but orders wrapped values with the
+   * provided comparator.
+   *
+   * @param compare The comparator for the wrapped values.
+   */
+  compareBy<T>(
+    compare: (a: T, b: T) => number,
+  ): (a: Option<T>, b: Option<T>) => number {
+    return (a, b) => a.compare(b, compare);
+  },
+
   /**
    * Transposes an array of options into an optional array,
    * analagous to how `Promise.all()` transposes
@@ -38,6 +164,137 @@ export const option = {
    */
   all: optionDotAll,
 
+  /**
+   * Transposes an object of options into an optional object.
+   *
+   * If every property is `some`, this method returns `option.some(obj)`
+   * where `obj` has the same keys, mapped to the unwrapped values.
+   * Otherwise, this method returns `option.none()`.
+   *
+   * @param options An object whose properties are options.
+   */
+  struct<S extends { [key: string]: Option<unknown> }>(
+    options: S,
+  ): Option<{ [K in keyof S]: SomeType<S[K]> }> {
+    const values = {} as { [K in keyof S]: SomeType<S[K]> };
+    const keys = Object.keys(options) as (keyof S)[];
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i];
+      const option: Option<unknown> = options[key];
+      if (option.isNone()) {
+        return OptionImpl.none();
+      }
+      values[key] = option.value as SomeType<S[typeof key]>;
+    }
+    return OptionImpl.some(values);
+  },
+
+  /**
+   * Transposes a `Map` of options into an optional `Map`.
+   *
+   * If every value is `some`, this method returns `option.some(map)`
+   * where `map` has the same keys, mapped to the unwrapped values.
+   * Otherwise, this method returns `option.none()`.
+   *
+   * @param options A `Map` whose values are options.
+   */
+  allMap<K, T>(options: Map<K, Option<T>>): Option<Map<K, T>> {
+    const values = new Map<K, T>();
+    let isNone = false;
+    options.forEach((option, key) => {
+      option.match({
+        none: () => {
+          isNone = true;
+        },
+        some: value => {
+          values.set(key, value);
+        },
+      });
+    });
+    return isNone ? OptionImpl.none() : OptionImpl.some(values);
+  },
+
+  /**
+   * Returns the first option in the array that is `some`,
+   * or `option.none()` if there is no such option.
+   *
+   * Corresponds to chaining Rust's `Option::or()`.
+   *
+   * @param options An array of options, in order of preference.
+   */
+  firstSome<T>(options: Option<T>[]): Option<T> {
+    return option.firstSomeLazy(options.map(opt => () => opt));
+  },
+
+  /**
+   * Calls the provided thunks in order, returning the first
+   * option that is `some`, or `option.none()` if there is no such option.
+   *
+   * The thunks are called lazily (i.e., once a thunk returns `some`,
+   * none of the remaining thunks will be called).
+   *
+   * @param thunks An array of callbacks that return options, in order of preference.
+   */
+  firstSomeLazy<T>(thunks: (() => Option<T>)[]): Option<T> {
+    for (let i = 0; i < thunks.length; i++) {
+      const opt = thunks[i]();
+      if (opt.isSome()) {
+        return opt;
+      }
+    }
+    return OptionImpl.none();
+  },
+
+  /**
+   * The asynchronous counterpart of `option.firstSomeLazy()`.
+   *
+   * Calls the provided thunks one at a time, waiting for each returned
+   * option to resolve before calling the next thunk.
+   * The returned `AsyncOption` resolves to the first option that is `some`,
+   * or to `option.none()` if there is no such option.
+   *
+   * @param thunks An array of callbacks that return options (or promises of them), in order of preference.
+   */
+  firstSomeAsync<T>(
+    thunks: (() => Option<T> | PromiseLike<Option<T>>)[],
+  ): AsyncOption<T> {
+    return thunks.reduce<AsyncOption<T>>(
+      (acc, thunk) => acc.orElse(thunk),
+      AsyncOptionImpl.none(),
+    );
+  },
+
+  /**
+   * Runs the provided options (or promises of them) concurrently.
+   *
+   * The returned `AsyncOption` resolves to the first option
+   * to resolve to `some`, or to `option.none()` once every option
+   * has resolved to `none`.
+   *
+   * @param options An array of options or promises of them.
+   */
+  firstSomeRace<T>(
+    options: (Option<T> | PromiseLike<Option<T>>)[],
+  ): AsyncOption<T> {
+    return AsyncOptionImpl.from(
+      new Promise<Option<T>>((resolve, reject) => {
+        let pending = options.length;
+        if (pending === 0) {
+          resolve(OptionImpl.none());
+        }
+        options.forEach(opt => {
+          Promise.resolve(opt).then(resolved => {
+            if (resolved.isSome()) {
+              resolve(resolved);
+            } else if (--pending === 0) {
+              resolve(OptionImpl.none());
+            }
+          }, reject);
+        });
+      }),
+    );
+  },
+
   /**
    * Accepts one argument `t`, returning `none` if the `t`
    * is `null` or `undefined` , otherwise returning `some(t)`.
@@ -49,6 +306,75 @@ export const option = {
       return OptionImpl.some(voidable);
     }
   },
+
+  /**
+   * Calls the provided function, returning `some(t)` if it returns `t`,
+   * or `none` if it throws.
+   *
+   * @param fn The function to call.
+   */
+  tryCatch<T>(fn: () => T): Option<T> {
+    try {
+      return OptionImpl.some(fn());
+    } catch {
+      return OptionImpl.none();
+    }
+  },
+
+  /**
+   * Runs the provided generator function, emulating Rust's `?` operator.
+   *
+   * Inside the generator, `yield* opt.bind()` evaluates to the value that `opt`
+   * wraps if `opt` is `some`.
+   * If `opt` is `none`, the generator is stopped and this method
+   * returns `none`.
+   * If the generator runs to completion, this method returns
+   * `some(t)`, where `t` is the generator's return value.
+   *
+   * @param body A generator function that uses `yield*` on `opt.bind()`.
+   */
+  gen<T>(
+    body: () => Generator<["some", unknown] | ["none"], T, unknown>,
+  ): Option<T> {
+    const iterator = body();
+    let step = iterator.next();
+    while (!step.done) {
+      if (step.value[0] === "none") {
+        iterator.return((undefined as unknown) as T);
+        return OptionImpl.none();
+      }
+      step = iterator.next();
+    }
+    return OptionImpl.some(step.value);
+  },
+
+  /**
+   * Wraps an `Option` (or a promise of one) in an `AsyncOption`,
+   * which lets you chain combinators without awaiting
+   * each intermediate option.
+   *
+   * @param opt An `Option` or a promise that resolves to an `Option`.
+   */
+  async<T>(opt: Option<T> | PromiseLike<Option<T>>): AsyncOption<T> {
+    return AsyncOptionImpl.from(opt);
+  },
+
+  /**
+   * The asynchronous counterpart of `option.fromVoidable()`.
+   *
+   * Accepts a promise of `t`, returning an `AsyncOption` that
+   * resolves to `none` if `t` is `null` or `undefined`,
+   * otherwise resolving to `some(t)`.
+   *
+   * @param voidable A promise of a value that may be `null` or `undefined`.
+   */
+  fromVoidableAsync<T>(
+    voidable: PromiseLike<T | undefined | null>,
+  ): AsyncOption<T> {
+    return AsyncOptionImpl.from(
+      Promise.resolve(voidable).then(value => option.fromVoidable(value)),
+    );
+  },
 };
 
 /**
@@ -62,59 +388,19 @@ export const option = {
  *
  * @param options A tuple or array of options.
  */
-export function optionDotAll<A>(options: [Option<A>]): Option<[A]>;
-export function optionDotAll<A, B>(
-  options: [Option<A>, Option<B>],
-): Option<[A, B]>;
-export function optionDotAll<A, B, C>(
-  options: [Option<A>, Option<B>, Option<C>],
-): Option<[A, B, C]>;
-export function optionDotAll<A, B, C, D>(
-  options: [Option<A>, Option<B>, Option<C>, Option<D>],
-): Option<[A, B, C, D]>;
-export function optionDotAll<A, B, C, D, E>(
-  options: [Option<A>, Option<B>, Option<C>, Option<D>, Option<E>],
-): Option<[A, B, C, D, E]>;
-export function optionDotAll<A, B, C, D, E, F>(
-  options: [Option<A>, Option<B>, Option<C>, Option<D>, Option<E>, Option<F>],
-): Option<[A, B, C, D, E, F]>;
-export function optionDotAll<A, B, C, D, E, F, G>(
-  options: [
-    Option<A>,
-    Option<B>,
-    Option<C>,
-    Option<D>,
-    Option<E>,
-    Option<F>,
-    Option<G>,
-  ],
-): Option<[A, B, C, D, E, F, G]>;
-export function optionDotAll<A, B, C, D, E, F, G, H>(
-  options: [
-    Option<A>,
-    Option<B>,
-    Option<C>,
-    Option<D>,
-    Option<E>,
-    Option<F>,
-    Option<G>,
-    Option<H>,
-  ],
-): Option<[A, B, C, D, E, F, G, H]>;
-
-export function optionDotAll<T>(options: Option<T>[]): Option<T[]>;
-
-export function optionDotAll<T>(options: Option<T>[]): Option<T[]> {
-  let values = [];
+export function optionDotAll<
+  Options extends [Option<unknown>] | Option<unknown>[]
+>(options: Options): Option<UnwrapAll<Options>> {
+  const values: unknown[] = [];
   for (let i = 0; i < options.length; i++) {
     const option = options[i];
     if (option.isSome()) {
-      values.push((option as any).value);
+      values.push(option.value);
     } else {
       return OptionImpl.none();
     }
   }
-  return OptionImpl.some(values);
+  return OptionImpl.some((values as unknown) as UnwrapAll<Options>);
 }
 
 export const result = {
@@ -136,6 +422,61 @@ export const result = {
     return ResultImpl.err<T, E>(error);
   },
 
+  /**
+   * Returns whether the provided value is a `Result` created by rusty-ts.
+   *
+   * Unlike `instanceof`, this also recognizes results created by
+   * other copies of rusty-ts (e.g., duplicates in `node_modules`)
+   * and in other realms (e.g., `vm` contexts), since it checks for
+   * a brand registered with `Symbol.for()`.
+   * Results sent to a worker lose their prototype when they are cloned,
+   * so encode them with `serde` or `bincode` instead.
+   *
+   * @param value The value to check.
+   */
+  isResult(value: unknown): value is Result<unknown, unknown> {
+    return ResultImpl.isResult(value);
+  },
+
+  /**
+   * Converts any object that implements `match()` like a `Result`
+   * (e.g., a result from another copy of rusty-ts, or a third-party
+   * implementation) into a result created by this copy of rusty-ts.
+   *
+   * Returns the provided result itself if it already is one.
+   *
+   * @param res The object to convert.
+   */
+  adapt<T, E>(res: Pick<BaseResult<T, E>, "match">): Result<T, E> {
+    return ResultImpl.adapt(res);
+  },
+
+  /**
+   * A comparator for `Array.prototype.sort()` that orders results
+   * like Rust's derived `Ord` (`ok`s first, then `err`s, with results
+   * of the same variant ordered by their inner values).
+   *
+   * Same as `a.compare(b)`.
+   */
+  compare<T, E>(a: Result<T, E>, b: Result<T, E>): number {
+    return a.compare(b);
+  },
+
+  /**
+   * Returns a comparator for `Array.prototype.sort()` that orders results
+   * like `result.compare()`, but orders inner values with the
+   * provided comparators.
+   *
+   * @param compareOk The comparator for `ok` values.
+   * @param compareErr The comparator for `err` values.
+   */
+  compareBy<T, E>(
+    compareOk: (a: T, b: T) => number,
+    compareErr: (a: E, b: E) => number,
+  ): (a: Result<T, E>, b: Result<T, E>) => number {
+    return (a, b) => a.compare(b, compareOk, compareErr);
+  },
+
   /**
    * Transposes an array of results into an result with an array,
    * analagous to how `Promise.all()` transposes
@@ -149,8 +490,487 @@ export const result = {
    * @param results A tuple or array of results.
    */
   all: resultDotAll,
+
+  /**
+   * Like `result.all()`, except that it does not stop at the first `err`.
+   *
+   * If every result is `ok`, this method returns `result.ok(arr)`
+   * where `arr` is an array of the unwrapped `Result`s.
+   * Otherwise, this method returns `result.err(errs)` where `errs` is
+   * a non-empty array of the error values of every result in the array
+   * that was an `err`, in order.
+   *
+   * This is useful for validation, where every failure
+   * should be reported at once.
+   *
+   * @param results A tuple or array of results.
+   */
+  allErrors: resultDotAllErrors,
+
+  /**
+   * Transposes an object of results into a result with an object.
+   *
+   * If every property is `ok`, this method returns `result.ok(obj)`
+   * where `obj` has the same keys, mapped to the unwrapped values.
+   * Otherwise, this method returns `result.err(e)` where `e` is
+   * the error value of the first property (in `Object.keys()` order)
+   * that was an `err`.
+   *
+   * @param results An object whose properties are results.
+   */
+  struct<S extends { [key: string]: Result<unknown, unknown> }>(
+    results: S,
+  ): Result<{ [K in keyof S]: OkType<S[K]> }, ErrType<S[keyof S]>> {
+    const values = {} as { [K in keyof S]: OkType<S[K]> };
+    const keys = Object.keys(results) as (keyof S)[];
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i];
+      const res: Result<unknown, unknown> = results[key];
+      if (res.isErr()) {
+        return ResultImpl.err(res.error as ErrType<S[keyof S]>);
+      }
+      values[key] = res.value as OkType<S[typeof key]>;
+    }
+    return ResultImpl.ok(values);
+  },
+
+  /**
+   * Like `result.struct()`, except that it does not stop at the first `err`.
+   *
+   * If every property is `ok`, this method returns `result.ok(obj)`
+   * where `obj` has the same keys, mapped to the unwrapped values.
+   * Otherwise, this method returns `result.err(errs)` where `errs`
+   * maps the key of every property that was an `err`
+   * to that property's error value.
+   *
+   * @param results An object whose properties are results.
+   */
+  structErrors<S extends { [key: string]: Result<unknown, unknown> }>(
+    results: S,
+  ): Result<
+    { [K in keyof S]: OkType<S[K]> },
+    { [K in keyof S]?: ErrType<S[K]> }
+  > {
+    const values = {} as { [K in keyof S]: OkType<S[K]> };
+    const errors: { [K in keyof S]?: ErrType<S[K]> } = {};
+    let hasErrors = false;
+    const keys = Object.keys(results) as (keyof S)[];
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i];
+      const res: Result<unknown, unknown> = results[key];
+      if (res.isErr()) {
+        errors[key] = res.error as ErrType<S[typeof key]>;
+        hasErrors = true;
+      } else {
+        values[key] = res.value as OkType<S[typeof key]>;
+      }
+    }
+    return hasErrors ? ResultImpl.err(errors) : ResultImpl.ok(values);
+  },
+
+  /**
+   * Transposes a `Map` of results into a result with a `Map`.
+   *
+   * If every value is `ok`, this method returns `result.ok(map)`
+   * where `map` has the same keys, mapped to the unwrapped values.
+   * Otherwise, this method returns `result.err(e)` where `e` is
+   * the error value of the first entry (in insertion order)
+   * that was an `err`.
+   *
+   * @param results A `Map` whose values are results.
+   */
+  allMap<K, T, E>(results: Map<K, Result<T, E>>): Result<Map<K, T>, E> {
+    return result
+      .allErrorsMap(results)
+      .mapErr(errors => errors.values().next().value);
+  },
+
+  /**
+   * Like `result.allMap()`, except that it does not stop at the first `err`.
+   *
+   * If every value is `ok`, this method returns `result.ok(map)`
+   * where `map` has the same keys, mapped to the unwrapped values.
+   * Otherwise, this method returns `result.err(errs)` where `errs`
+   * maps the key of every entry that was an `err`
+   * to that entry's error value.
+   *
+   * @param results A `Map` whose values are results.
+   */
+  allErrorsMap<K, T, E>(
+    results: Map<K, Result<T, E>>,
+  ): Result<Map<K, T>, Map<K, E>> {
+    const values = new Map<K, T>();
+    const errors = new Map<K, E>();
+    results.forEach((res, key) => {
+      res.match({
+        ok: value => {
+          values.set(key, value);
+        },
+        err: error => {
+          errors.set(key, error);
+        },
+      });
+    });
+    return errors.size === 0 ? ResultImpl.ok(values) : ResultImpl.err(errors);
+  },
+
+  /**
+   * Returns the first result in the array that is `ok`.
+   * If there is no such result, this method returns `result.err(errs)`
+   * where `errs` is an array of the error values of every result, in order.
+   *
+   * This is the counterpart of `result.all()`, analagous to
+   * how `Promise.any()` is the counterpart of `Promise.all()`.
+   *
+   * @param results An array of results, in order of preference.
+   */
+  any<T, E>(results: Result<T, E>[]): Result<T, E[]> {
+    return result.anyLazy(results.map(res => () => res));
+  },
+
+  /**
+   * Calls the provided thunks in order, returning the first result
+   * that is `ok`.
+   * If there is no such result, this method returns `result.err(errs)`
+   * where `errs` is an array of the error values of every result, in order.
+   *
+   * The thunks are called lazily (i.e., once a thunk returns `ok`,
+   * none of the remaining thunks will be called).
+   *
+   * @param thunks An array of callbacks that return results, in order of preference.
+   */
+  anyLazy<T, E>(thunks: (() => Result<T, E>)[]): Result<T, E[]> {
+    const errors: E[] = [];
+    for (let i = 0; i < thunks.length; i++) {
+      const res = thunks[i]();
+      if (res.isOk()) {
+        return ResultImpl.ok(res.value);
+      }
+      errors.push(res.error);
+    }
+    return ResultImpl.err(errors);
+  },
+
+  /**
+   * The asynchronous counterpart of `result.anyLazy()`.
+   *
+   * Calls the provided thunks one at a time, waiting for each returned
+   * result to resolve before calling the next thunk.
+   * The returned `AsyncResult` resolves to the first result that is `ok`,
+   * or to `result.err(errs)` where `errs` is an array of the error values
+   * of every result, in order.
+   *
+   * @param thunks An array of callbacks that return results (or promises of them), in order of preference.
+   */
+  anyAsync<T, E>(
+    thunks: (() => Result<T, E> | PromiseLike<Result<T, E>>)[],
+  ): AsyncResult<T, E[]> {
+    return thunks.reduce<AsyncResult<T, E[]>>(
+      (acc, thunk) =>
+        acc.orElse(errors =>
+          result.async(thunk()).mapErr(error => errors.concat([error])),
+        ),
+      AsyncResultImpl.err([]),
+    );
+  },
+
+  /**
+   * Runs the provided results (or promises of them) concurrently.
+   *
+   * The returned `AsyncResult` resolves to the first result
+   * to resolve to `ok`.
+   * Once every result has resolved to `err`, it resolves to
+   * `result.err(errs)` where `errs` is an array of the error values
+   * in the order the results were provided (not the order they resolved in).
+   *
+   * @param results An array of results or promises of them.
+   */
+  anyRace<T, E>(
+    results: (Result<T, E> | PromiseLike<Result<T, E>>)[],
+  ): AsyncResult<T, E[]> {
+    return AsyncResultImpl.from(
+      new Promise<Result<T, E[]>>((resolve, reject) => {
+        const errors: E[] = new Array(results.length);
+        let pending = results.length;
+        if (pending === 0) {
+          resolve(ResultImpl.err(errors));
+        }
+        results.forEach((res, i) => {
+          Promise.resolve(res).then(resolved => {
+            resolved.match({
+              ok: value => {
+                resolve(ResultImpl.ok(value));
+              },
+              err: error => {
+                errors[i] = error;
+                if (--pending === 0) {
+                  resolve(ResultImpl.err(errors));
+                }
+              },
+            });
+          }, reject);
+        });
+      }),
+    );
+  },
+
+  /**
+   * Splits an array of results into a tuple of two arrays:
+   * the unwrapped values of the `ok` results and
+   * the error values of the `err` results,
+   * each in their original order.
+   *
+   * @param results An array of results.
+   */
+  partition<T, E>(results: Result<T, E>[]): [T[], E[]] {
+    const values: T[] = [];
+    const errors: E[] = [];
+    for (let i = 0; i < results.length; i++) {
+      results[i].match({
+        ok: value => {
+          values.push(value);
+        },
+        err: error => {
+          errors.push(error);
+        },
+      });
+    }
+    return [values, errors];
+  },
+
+  /**
+   * Wraps a `Result` (or a promise of one) in an `AsyncResult`,
+   * which lets you chain combinators without awaiting
+   * each intermediate result.
+   *
+   * @param res A `Result` or a promise that resolves to a `Result`.
+   */
+  async<T, E>(
+    res: Result<T, E> | PromiseLike<Result<T, E>>,
+  ): AsyncResult<T, E> {
+    return AsyncResultImpl.from(res);
+  },
+
+  /**
+   * Converts a promise into an `AsyncResult`.
+   *
+   * If the promise fulfills with `t`, the returned `AsyncResult`
+   * resolves to `ok(t)`.
+   * If the promise rejects with `reason`, the returned `AsyncResult`
+   * resolves to `err(mapError(reason))`, or `err(reason)` if no
+   * mapper is provided.
+   *
+   * @param promise The promise to convert.
+   * @param mapError A function that converts the rejection reason into an error value.
+   */
+  fromPromise<T, E = unknown>(
+    promise: PromiseLike<T>,
+    mapError?: (reason: unknown) => E,
+  ): AsyncResult<T, E> {
+    return AsyncResultImpl.from(
+      Promise.resolve(promise).then(
+        value => ResultImpl.ok<T, E>(value),
+        reason => ResultImpl.err<T, E>(mapCaught(reason, mapError)),
+      ),
+    );
+  },
+
+  /**
+   * Calls the provided function, returning `ok(t)` if it returns `t`.
+   * If the function throws `e`, this method returns `err(mapError(e))`,
+   * or `err(e)` if no mapper is provided.
+   *
+   * @param fn The function to call.
+   * @param mapError A function that converts the thrown value into an error value.
+   */
+  tryCatch<T, E = unknown>(
+    fn: () => T,
+    mapError?: (thrown: unknown) => E,
+  ): Result<T, E> {
+    try {
+      return ResultImpl.ok(fn());
+    } catch (thrown) {
+      return ResultImpl.err(mapCaught(thrown, mapError));
+    }
+  },
+
+  /**
+   * The asynchronous counterpart of `result.tryCatch()`.
+   *
+   * Calls the provided function, returning an `AsyncResult` that
+   * resolves to `ok(t)` if the function returns `t` (or a promise
+   * that fulfills with `t`).
+   * If the function throws (or returns a promise that rejects with) `e`,
+   * the `AsyncResult` resolves to `err(mapError(e))`, or `err(e)` if
+   * no mapper is provided.
+   *
+   * @param fn The function to call.
+   * @param mapError A function that converts the thrown value into an error value.
+   */
+  tryCatchAsync<T, E = unknown>(
+    fn: () => T | PromiseLike<T>,
+    mapError?: (thrown: unknown) => E,
+  ): AsyncResult<T, E> {
+    return result.fromPromise(
+      new Promise<T>(resolve => resolve(fn())),
+      mapError,
+    );
+  },
+
+  /**
+   * Wraps the provided function so that it returns a `Result`
+   * instead of throwing.
+   *
+   * Calling the returned function with some arguments is
+   * equivalent to calling `result.tryCatch(() => fn(...args), mapError)`.
+   *
+   * @param fn The function to wrap.
+   * @param mapError A function that converts the thrown value into an error value.
+   */
+  fromThrowable<A extends any[], T, E = unknown>(
+    fn: (...args: A) => T,
+    mapError?: (thrown: unknown) => E,
+  ): (...args: A) => Result<T, E> {
+    return function(this: unknown, ...args: A): Result<T, E> {
+      return result.tryCatch(() => fn.apply(this, args), mapError);
+    };
+  },
+
+  /**
+   * The asynchronous counterpart of `result.fromThrowable()`.
+   *
+   * Wraps the provided function so that it returns an `AsyncResult`
+   * instead of throwing or returning a promise that rejects.
+   *
+   * @param fn The function to wrap.
+   * @param mapError A function that converts the thrown value into an error value.
+   */
+  fromThrowableAsync<A extends any[], T, E = unknown>(
+    fn: (...args: A) => T | PromiseLike<T>,
+    mapError?: (thrown: unknown) => E,
+  ): (...args: A) => AsyncResult<T, E> {
+    return function(this: unknown, ...args: A): AsyncResult<T, E> {
+      return result.tryCatchAsync(() => fn.apply(this, args), mapError);
+    };
+  },
+
+  /**
+   * Runs the provided generator function, emulating Rust's `?` operator.
+   *
+   * Inside the generator, `yield* res.bind()` evaluates to the inner value
+   * if `res` is `ok`.
+   * If `res` is `err`, the generator is stopped and this method
+   * returns `res`.
+   * If the generator runs to completion, this method returns
+   * `ok(t)`, where `t` is the generator's return value.
+   *
+   * The error type of the returned result is the union of
+   * the error types of every result bound with `yield*`.
+   *
+   * @param body A generator function that uses `yield*` on `res.bind()`.
+   */
+  gen<Y extends ["ok", unknown] | ["err", unknown], T>(
+    body: () => Generator<Y, T, unknown>,
+  ): Result<T, YieldedErr<Y>> {
+    const iterator = body();
+    let step = iterator.next();
+    while (!step.done) {
+      const yielded: ["ok", unknown] | ["err", unknown] = step.value;
+      if (yielded[0] === "err") {
+        iterator.return((undefined as unknown) as T);
+        return ResultImpl.err(yielded[1] as YieldedErr<Y>);
+      }
+      step = iterator.next();
+    }
+    return ResultImpl.ok(step.value);
+  },
+
+  /**
+   * The asynchronous counterpart of `result.gen()`.
+   *
+   * Inside the async generator, `yield* res.bind()` evaluates to the inner value
+   * if `res` is `ok`, where `res` is a `Result` or an `AsyncResult`.
+   * To use a promise of a `Result`, await it first
+   * (i.e., `yield* (await promise).bind()`).
+   * If `res` is `err`, the generator is stopped and the returned promise
+   * resolves to `err`.
+   * If the generator runs to completion, the returned promise
+   * resolves to `ok(t)`, where `t` is the generator's return value.
+   *
+   * The error type of the returned result is the union of
+   * the error types of every result bound with `yield*`.
+   *
+   * @param body An async generator function that uses `yield*` on `res.bind()`.
+   */
+  async genAsync<Y extends ["ok", unknown] | ["err", unknown], T>(
+    body: () => AsyncGenerator<Y, T, unknown>,
+  ): Promise<Result<T, YieldedErr<Y>>> {
+    const iterator = body();
+    let step = await iterator.next();
+    while (!step.done) {
+      const yielded: ["ok", unknown] | ["err", unknown] = step.value;
+      if (yielded[0] === "err") {
+        await iterator.return((undefined as unknown) as T);
+        return ResultImpl.err(yielded[1] as YieldedErr<Y>);
+      }
+      step = await iterator.next();
+    }
+    return ResultImpl.ok(step.value);
+  },
+
+  /**
+   * Returns a method decorator that makes the decorated method return
+   * `err(mapError(e))` (or `err(e)` if no mapper is provided)
+   * instead of throwing `e`.
+   *
+   * The decorated method must already be declared to return a `Result`,
+   * so that its signature stays accurate after decoration.
+   * Results returned by the method are passed through untouched.
+   *
+   * @param mapError A function that converts the thrown value into an error value.
+   */
+  tryCatchMethod<E = unknown>(mapError?: (thrown: unknown) => E) {
+    return function<A extends any[], T, F>(
+      _target: object,
+      _key: string | symbol,
+      descriptor: TypedPropertyDescriptor<(...args: A) => Result<T, E | F>>,
+    ): void {
+      const method = descriptor.value;
+      if (method === undefined) {
+        return;
+      }
+      descriptor.value = function(this: unknown, ...args: A) {
+        try {
+          return method.apply(this, args);
+        } catch (thrown) {
+          return ResultImpl.err<T, E>(mapCaught(thrown, mapError));
+        }
+      };
+    };
+  },
+};
+
+export const iter = {
+  /**
+   * Returns an `Iter` that lazily yields the values of the provided
+   * iterable (e.g., an array, a `Set`, or a generator).
+   *
+   * @param iterable The values to iterate over.
+   */
+  from<T>(iterable: Iterable<T>): Iter<T> {
+    return IterImpl.from(iterable);
+  },
 };
 
+type YieldedErr<Y> = Y extends ["err", infer E] ? E : never;
+
+function mapCaught<E>(
+  thrown: unknown,
+  mapError: ((thrown: unknown) => E) | undefined,
+): E {
+  return mapError === undefined ? (thrown as E) : mapError(thrown);
+}
+
 /**
  * Transposes an array of results into an result with an array,
  * analagous to how `Promise.all()` transposes
@@ -163,107 +983,41 @@ export const result = {
  *
  * @param results A tuple or array of results.
  */
-export function resultDotAll<T1, E1>(
-  results: [Result<T1, E1>],
-): Result<[T1], E1>;
-export function resultDotAll<T1, E1, T2, E2>(
-  results: [Result<T1, E1>, Result<T2, E2>],
-): Result<[T1, T2], E1 | E2>;
-export function resultDotAll<T1, E1, T2, E2, T3, E3>(
-  results: [Result<T1, E1>, Result<T2, E2>, Result<T3, E3>],
-): Result<[T1, T2, T3], E1 | E2 | E3>;
-export function resultDotAll<T1, E1, T2, E2, T3, E3, T4, E4>(
-  results: [Result<T1, E1>, Result<T2, E2>, Result<T3, E3>, Result<T4, E4>],
-): Result<[T1, T2, T3, T4], E1 | E2 | E3 | E4>;
-export function resultDotAll<T1, E1, T2, E2, T3, E3, T4, E4, T5, E5>(
-  results: [
-    Result<T1, E1>,
-    Result<T2, E2>,
-    Result<T3, E3>,
-    Result<T4, E4>,
-    Result<T5, E5>,
-  ],
-): Result<[T1, T2, T3, T4, T5], E1 | E2 | E3 | E4 | E5>;
-export function resultDotAll<T1, E1, T2, E2, T3, E3, T4, E4, T5, E5, T6, E6>(
-  results: [
-    Result<T1, E1>,
-    Result<T2, E2>,
-    Result<T3, E3>,
-    Result<T4, E4>,
-    Result<T5, E5>,
-    Result<T6, E6>,
-  ],
-): Result<[T1, T2, T3, T4, T5, T6], E1 | E2 | E3 | E4 | E5 | E6>;
-export function resultDotAll<
-  T1,
-  E1,
-  T2,
-  E2,
-  T3,
-  E3,
-  T4,
-  E4,
-  T5,
-  E5,
-  T6,
-  E6,
-  T7,
-  E7
->(
-  results: [
-    Result<T1, E1>,
-    Result<T2, E2>,
-    Result<T3, E3>,
-    Result<T4, E4>,
-    Result<T5, E5>,
-    Result<T6, E6>,
-    Result<T7, E7>,
-  ],
-): Result<[T1, T2, T3, T4, T5, T6, T7], E1 | E2 | E3 | E4 | E5 | E6 | E7>;
 export function resultDotAll<
-  T1,
-  E1,
-  T2,
-  E2,
-  T3,
-  E3,
-  T4,
-  E4,
-  T5,
-  E5,
-  T6,
-  E6,
-  T7,
-  E7,
-  T8,
-  E8
->(
-  results: [
-    Result<T1, E1>,
-    Result<T2, E2>,
-    Result<T3, E3>,
-    Result<T4, E4>,
-    Result<T5, E5>,
-    Result<T6, E6>,
-    Result<T7, E7>,
-    Result<T8, E8>,
-  ],
-): Result<
-  [T1, T2, T3, T4, T5, T6, T7, T8],
-  E1 | E2 | E3 | E4 | E5 | E6 | E7 | E8
->;
-
-export function resultDotAll<T, E>(results: Result<T, E>[]): Result<T[], E>;
-
-export function resultDotAll<T, E>(results: Result<T, E>[]): Result<T[], E> {
-  let values = [];
+  Results extends [Result<unknown, unknown>] | Result<unknown, unknown>[]
+>(results: Results): Result<UnwrapAll<Results>, ErrType<Results[number]>> {
+  const values: unknown[] = [];
   for (let i = 0; i < results.length; i++) {
     const result = results[i];
     if (result.isOk()) {
-      values.push(result.safeUnwrap());
+      values.push(result.value);
     } else {
-      return result as Result<never, E>;
+      return result as Result<never, ErrType<Results[number]>>;
     }
   }
-  return ResultImpl.ok(values);
+  return ResultImpl.ok((values as unknown) as UnwrapAll<Results>);
+}
+
+/**
+ * Like `result.all()`, except that it does not stop at the first `err`.
+ *
+ * If every result is `ok`, this method returns `result.ok(arr)`
+ * where `arr` is an array of the unwrapped `Result`s.
+ * Otherwise, this method returns `result.err(errs)` where `errs` is
+ * a non-empty array of the error values of every result in the array
+ * that was an `err`, in order.
+ *
+ * @param results A tuple or array of results.
+ */
+export function resultDotAllErrors<
+  Results extends [Result<unknown, unknown>] | Result<unknown, unknown>[]
+>(
+  results: Results,
+): Result<UnwrapAll<Results>, NonEmptyArray<ErrType<Results[number]>>> {
+  const [values, errors] = result.partition<unknown, unknown>(results);
+  if (errors.length === 0) {
+    return ResultImpl.ok((values as unknown) as UnwrapAll<Results>);
+  } else {
+    return ResultImpl.err(errors as NonEmptyArray<ErrType<Results[number]>>);
+  }
 }
@@ -0,0 +1,324 @@
+import OptionImpl from "./private/OptionImpl";
+import ResultImpl from "./private/ResultImpl";
+import debugFormat from "./private/debugFormat";
+
+/**
+ * Jest matchers and a snapshot serializer for options and results.
+ *
+ * This module is not exported from the package index, so that
+ * the main entry point does not depend on Jest. Register it
+ * in a setup file (e.g., one listed in `setupFilesAfterEnv`):
+ *
+ * ```ts
+ * import { matchers, serializer } from "rusty-ts/dist/jest";
+ *
+ * expect.extend(matchers);
+ * expect.addSnapshotSerializer(serializer);
+ * ```
+ */
+
+/**
+ * What `toBeErrMatching()` accepts:
+ * a substring of the error message, a regular expression that
+ * the error message must match, a class that the error must be
+ * an instance of, or an object whose properties the error must
+ * have (like `toMatchObject()`).
+ */
+export type ErrPattern =
+  | string
+  | RegExp
+  | (new (...args: any[]) => unknown)
+  | object;
+
+declare global {
+  namespace jest {
+    interface Matchers<R, T> {
+      /**
+       * Checks that the received value is `option.some()`.
+       */
+      toBeSome(): R;
+
+      /**
+       * Checks that the received value is `option.none()`.
+       */
+      toBeNone(): R;
+
+      /**
+       * Checks that the received value is `option.some()` of a value that
+       * recursively equals `expected` (like `toEqual()`).
+       */
+      toBeSomeWith(expected: unknown): R;
+
+      /**
+       * Checks that the received value is `result.ok()`.
+       */
+      toBeOk(): R;
+
+      /**
+       * Checks that the received value is `result.err()`.
+       */
+      toBeErr(): R;
+
+      /**
+       * Checks that the received value is `result.ok()` of a value that
+       * recursively equals `expected` (like `toEqual()`).
+       */
+      toBeOkWith(expected: unknown): R;
+
+      /**
+       * Checks that the received value is `result.err()` of an error
+       * that matches `expected` (see `ErrPattern`).
+       */
+      toBeErrMatching(expected: ErrPattern): R;
+    }
+  }
+}
+
+export const matchers = {
+  toBeSome(this: jest.MatcherContext, received: unknown) {
+    return matchVariant(this, "toBeSome", received, "some");
+  },
+
+  toBeNone(this: jest.MatcherContext, received: unknown) {
+    return matchVariant(this, "toBeNone", received, "none");
+  },
+
+  toBeSomeWith(
+    this: jest.MatcherContext,
+    received: unknown,
+    expected: unknown,
+  ) {
+    return matchInner(this, "toBeSomeWith", received, "some", expected, inner =>
+      this.equals(inner, expected, [this.utils.iterableEquality]),
+    );
+  },
+
+  toBeOk(this: jest.MatcherContext, received: unknown) {
+    return matchVariant(this, "toBeOk", received, "ok");
+  },
+
+  toBeErr(this: jest.MatcherContext, received: unknown) {
+    return matchVariant(this, "toBeErr", received, "err");
+  },
+
+  toBeOkWith(this: jest.MatcherContext, received: unknown, expected: unknown) {
+    return matchInner(this, "toBeOkWith", received, "ok", expected, inner =>
+      this.equals(inner, expected, [this.utils.iterableEquality]),
+    );
+  },
+
+  toBeErrMatching(
+    this: jest.MatcherContext,
+    received: unknown,
+    expected: ErrPattern,
+  ) {
+    return matchInner(
+      this,
+      "toBeErrMatching",
+      received,
+      "err",
+      expected,
+      inner => matchesErrPattern(this, inner, expected),
+    );
+  },
+};
+
+/**
+ * Prints options and results in snapshots as `None`, `Some(...)`,
+ * `Ok(...)`, and `Err(...)`, instead of as their `toJSON()` output.
+ */
+export const serializer: jest.SnapshotSerializerPlugin = {
+  test(value: unknown): boolean {
+    return OptionImpl.isOption(value) || ResultImpl.isResult(value);
+  },
+
+  print(value: unknown, serialize: (value: unknown) => string): string {
+    if (OptionImpl.isOption(value)) {
+      return value.match({
+        none: () => "None",
+        some: inner => `Some(${serialize(inner)})`,
+      });
+    }
+    return (value as ResultImpl<unknown, unknown>).match({
+      ok: inner => `Ok(${serialize(inner)})`,
+      err: inner => `Err(${serialize(inner)})`,
+    });
+  },
+};
+
+type Variant = "some" | "none" | "ok" | "err";
+
+const VARIANT_PATTERNS: { [V in Variant]: string } = {
+  some: "Some(_)",
+  none: "None",
+  ok: "Ok(_)",
+  err: "Err(_)",
+};
+
+function matchVariant(
+  context: jest.MatcherContext,
+  matcherName: string,
+  received: unknown,
+  variant: Variant,
+): jest.CustomMatcherResult {
+  const hint = context.utils.matcherHint(matcherName, undefined, "", {
+    isNot: context.isNot,
+    promise: context.promise,
+  });
+  const pass = receivedVariant(context, hint, received, variant) === variant;
+  return {
+    pass,
+    message: () =>
+      hint +
+      "\n\n" +
+      `Expected: ${context.isNot ? "not " : ""}${context.utils.EXPECTED_COLOR(
+        VARIANT_PATTERNS[variant],
+      )}\n` +
+      `Received: ${context.utils.RECEIVED_COLOR(debugFormat(received))}`,
+  };
+}
+
+function matchInner(
+  context: jest.MatcherContext,
+  matcherName: string,
+  received: unknown,
+  variant: "some" | "ok" | "err",
+  expected: unknown,
+  matches: (inner: unknown) => boolean,
+): jest.CustomMatcherResult {
+  const hint = context.utils.matcherHint(matcherName, undefined, "expected", {
+    isNot: context.isNot,
+    promise: context.promise,
+  });
+  const isVariant =
+    receivedVariant(context, hint, received, variant) === variant;
+  const inner = isVariant ? innerValue(received) : undefined;
+  const pass = isVariant && matches(inner);
+  const label = variant === "err" ? "error" : "value";
+
+  const message = (): string => {
+    if (!isVariant) {
+      return (
+        hint +
+        "\n\n" +
+        `Expected: ${context.utils.EXPECTED_COLOR(
+          VARIANT_PATTERNS[variant],
+        )}\n` +
+        `Received: ${context.utils.RECEIVED_COLOR(debugFormat(received))}`
+      );
+    }
+    if (pass) {
+      return (
+        hint +
+        "\n\n" +
+        `Expected ${label}: not ${context.utils.printExpected(expected)}\n` +
+        `Received ${label}: ${context.utils.RECEIVED_COLOR(debugFormat(inner))}`
+      );
+    }
+    if (matcherName === "toBeErrMatching" && !isObjectPattern(expected)) {
+      return (
+        hint +
+        "\n\n" +
+        `Expected error: ${context.utils.printExpected(expected)}\n` +
+        `Received error: ${context.utils.RECEIVED_COLOR(debugFormat(inner))}`
+      );
+    }
+    return (
+      hint +
+      "\n\n" +
+      context.utils.printDiffOrStringify(
+        expected,
+        inner,
+        `Expected ${label}`,
+        `Received ${label}`,
+        context.expand,
+      )
+    );
+  };
+
+  return { pass, message };
+}
+
+/**
+ * Returns the variant of `received`, throwing a matcher error
+ * if `received` is not the kind of value that the matcher expects.
+ */
+function receivedVariant(
+  context: jest.MatcherContext,
+  hint: string,
+  received: unknown,
+  variant: Variant,
+): Variant {
+  const isOptionMatcher = variant === "some" || variant === "none";
+  if (isOptionMatcher && OptionImpl.isOption(received)) {
+    return received.kind;
+  }
+  if (!isOptionMatcher && ResultImpl.isResult(received)) {
+    return received.kind;
+  }
+  throw new Error(
+    context.utils.matcherErrorMessage(
+      hint,
+      `${context.utils.RECEIVED_COLOR("received")} value must be ${
+        isOptionMatcher ? "an Option" : "a Result"
+      }`,
+      context.utils.printWithType(
+        "Received",
+        received,
+        context.utils.printReceived,
+      ),
+    ),
+  );
+}
+
+function innerValue(received: unknown): unknown {
+  if (OptionImpl.isOption(received)) {
+    return received.unwrap();
+  }
+  return (received as ResultImpl<unknown, unknown>).match({
+    ok: value => value,
+    err: error => error,
+  });
+}
+
+function matchesErrPattern(
+  context: jest.MatcherContext,
+  error: unknown,
+  pattern: ErrPattern,
+): boolean {
+  if ("string" === typeof pattern) {
+    return errorMessage(error).indexOf(pattern) !== -1;
+  }
+  if (pattern instanceof RegExp) {
+    return pattern.test(errorMessage(error));
+  }
+  if ("function" === typeof pattern) {
+    return error instanceof pattern;
+  }
+  return context.equals(error, pattern, [
+    context.utils.iterableEquality,
+    context.utils.subsetEquality,
+  ]);
+}
+
+function isObjectPattern(pattern: unknown): boolean {
+  return (
+    "object" === typeof pattern &&
+    pattern !== null &&
+    !(pattern instanceof RegExp)
+  );
+}
+
+function errorMessage(error: unknown): string {
+  if ("string" === typeof error) {
+    return error;
+  }
+  if (
+    "object" === typeof error &&
+    error !== null &&
+    "string" === typeof (error as { message?: unknown }).message
+  ) {
+    return (error as { message: string }).message;
+  }
+  return debugFormat(error);
+}
@@ -0,0 +1,206 @@
+import Result from "./Result";
+import UnwrapError from "./UnwrapError";
+import debugFormat from "./private/debugFormat";
+import diffLines from "./private/diffLines";
+import {
+  beginPanic,
+  catchPanic,
+  getHook,
+  replaceHook,
+} from "./private/panicking";
+import { deepEquals } from "./private/structural";
+
+/**
+ * Describes a panic: a failed `unwrap()`, `expect()`, `unwrapErr()`,
+ * `expectErr()`, `unwrapOrThrowErr()`, or `unwrapErrOrThrowOk()`,
+ * or a call to `panic()`, `unreachable()`, `todo()`, or a failed
+ * `assert()` or `assertEq()`.
+ */
+export interface PanicInfo {
+  /**
+   * The message of the thrown error,
+   * or a debug rendering of the thrown value if it is not an error.
+   */
+  message: string;
+
+  /**
+   * The value found instead of the expected one: the error of an `err`,
+   * the value of an `ok`, or `undefined` for `none`.
+   */
+  payload: unknown;
+
+  /**
+   * The method or function that panicked,
+   * e.g., `"Result.prototype.unwrap"` or `"assertEq"`.
+   */
+  method: string;
+
+  /**
+   * The stack trace of the place where the panic occurred, if available.
+   */
+  stack: string | undefined;
+
+  /**
+   * The value that is thrown after the hook returns
+   * (usually an `UnwrapError`).
+   */
+  thrown: unknown;
+}
+
+/**
+ * A function that is called with every panic before the panic
+ * propagates as an exception.
+ *
+ * If the hook throws, its exception propagates instead.
+ */
+export type PanicHook = (info: PanicInfo) => void;
+
+/**
+ * Manages the global panic hook, like Rust's `std::panic`.
+ */
+export const panicking = {
+  /**
+   * Replaces the panic hook.
+   * The default hook does nothing.
+   *
+   * Corresponds to Rust's `std::panic::set_hook()`.
+   *
+   * @param hook A function to call with every panic.
+   */
+  setHook(hook: PanicHook): void {
+    replaceHook(hook);
+  },
+
+  /**
+   * Restores the default panic hook, returning the hook it replaces
+   * (so that a new hook can delegate to it).
+   *
+   * Corresponds to Rust's `std::panic::take_hook()`.
+   */
+  takeHook(): PanicHook {
+    const hook = getHook();
+    replaceHook(undefined);
+    return hook;
+  },
+
+  /**
+   * Calls the provided function, returning `ok(t)` if it returns `t`,
+   * or `err(info)` if it panics.
+   *
+   * The panic hook is still called for panics that this function catches.
+   * Exceptions that are not panics are rethrown, and so are panics
+   * that were thrown (and caught) before `fn` was called.
+   *
+   * If `unwrapOrThrowErr()` or `unwrapErrOrThrowOk()` throws a primitive
+   * (e.g., a string error), the panic hook is called, but the primitive
+   * is rethrown rather than caught: it cannot be told apart from a
+   * later `throw` of the same value.
+   *
+   * Corresponds to Rust's `std::panic::catch_unwind()`.
+   *
+   * @param fn The function to call.
+   */
+  catchUnwind<T>(fn: () => T): Result<T, PanicInfo> {
+    return catchPanic(fn);
+  },
+};
+
+/**
+ * Panics with the provided message, like Rust's `panic!()`.
+ *
+ * Throws an `UnwrapError` after calling the panic hook.
+ *
+ * @param message Describes what went wrong. Defaults to `"explicit panic"`.
+ */
+export function panic(message = "explicit panic"): never {
+  throw beginPanic("panic", undefined, new UnwrapError(message, undefined));
+}
+
+/**
+ * Panics to indicate that code that should be unreachable was reached,
+ * like Rust's `unreachable!()`.
+ *
+ * Because it returns `never`, it can end the `default` case of an
+ * exhaustive `switch`.
+ *
+ * @param message Describes why the code should be unreachable.
+ */
+export function unreachable(message?: string): never {
+  throw beginPanic(
+    "unreachable",
+    undefined,
+    new UnwrapError(
+      withDetail("internal error: entered unreachable code", message),
+      undefined,
+    ),
+  );
+}
+
+/**
+ * Panics to indicate unfinished code, like Rust's `todo!()`.
+ *
+ * @param message Describes what is left to do.
+ */
+export function todo(message?: string): never {
+  throw beginPanic(
+    "todo",
+    undefined,
+    new UnwrapError(withDetail("not yet implemented", message), undefined),
+  );
+}
+
+/**
+ * Panics if `condition` is falsy, like Rust's `assert!()`.
+ *
+ * Narrows `condition` to truthy for the code after the call.
+ *
+ * @param condition The condition that must hold.
+ * @param message Describes the condition. Defaults to `"assertion failed"`.
+ */
+export function assert(
+  condition: unknown,
+  message = "assertion failed",
+): asserts condition {
+  if (!condition) {
+    throw beginPanic("assert", condition, new UnwrapError(message, condition));
+  }
+}
+
+/**
+ * Panics if `left` and `right` are not structurally equal,
+ * like Rust's `assert_eq!()`.
+ *
+ * Values are compared like `Option.prototype.equals()` compares
+ * wrapped values. The panic message shows both values with
+ * Rust-style debug output (so nested options and results print as
+ * `Some(...)`, `Err(...)`, etc.), followed by a line diff
+ * if either value spans multiple lines when pretty-printed.
+ *
+ * @param left The actual value.
+ * @param right The expected value.
+ * @param message Describes what was being compared.
+ */
+export function assertEq<T>(left: T, right: T, message?: string): void {
+  if (deepEquals(left, right)) {
+    return;
+  }
+  const leftLines = debugFormat(left, { alternate: true }).split("\n");
+  const rightLines = debugFormat(right, { alternate: true }).split("\n");
+  let report =
+    withDetail("assertion `left == right` failed", message) +
+    `\n  left: ${debugFormat(left)}\n right: ${debugFormat(right)}`;
+  if (leftLines.length > 1 || rightLines.length > 1) {
+    report +=
+      "\n\nDiff (- left, + right):\n" +
+      diffLines(leftLines, rightLines).join("\n");
+  }
+  throw beginPanic(
+    "assertEq",
+    { left, right },
+    new UnwrapError(report, { left, right }),
+  );
+}
+
+function withDetail(summary: string, detail: string | undefined): string {
+  return detail === undefined ? summary : `${summary}: ${detail}`;
+}
@@ -0,0 +1,157 @@
+import AsyncOption from "../AsyncOption";
+import AsyncResult from "../AsyncResult";
+import Option from "../Option";
+import Result from "../Result";
+import AsyncResultImpl from "./AsyncResultImpl";
+import OptionImpl from "./OptionImpl";
+import handledPromise from "./handledPromise";
+
+export default class AsyncOptionImpl<T> implements AsyncOption<T> {
+  private constructor(private promise: Promise<Option<T>>) {}
+
+  static some<T>(value: T): AsyncOptionImpl<T> {
+    return AsyncOptionImpl.from(OptionImpl.some(value));
+  }
+
+  static none<T>(): AsyncOptionImpl<T> {
+    return AsyncOptionImpl.from(OptionImpl.none<T>());
+  }
+
+  static from<T>(
+    option: Option<T> | PromiseLike<Option<T>>,
+  ): AsyncOptionImpl<T> {
+    return new AsyncOptionImpl(Promise.resolve(option));
+  }
+
+  then<R1 = Option<T>, R2 = never>(
+    onfulfilled?:
+      | ((value: Option<T>) => R1 | PromiseLike<R1>)
+      | undefined
+      | null,
+    onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | undefined | null,
+  ): Promise<R1 | R2> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  match<N, S>(matcher: {
+    none: () => N | PromiseLike<N>;
+    some: (value: T) => S | PromiseLike<S>;
+  }): Promise<N | S> {
+    return this.promise.then(opt =>
+      opt.match<N | PromiseLike<N>, S | PromiseLike<S>>(matcher),
+    );
+  }
+
+  isNone(): Promise<boolean> {
+    return this.promise.then(opt => opt.isNone());
+  }
+
+  isSome(): Promise<boolean> {
+    return this.promise.then(opt => opt.isSome());
+  }
+
+  map<R>(mapper: (value: T) => R | PromiseLike<R>): AsyncOption<R> {
+    return this.andThen(value =>
+      Promise.resolve(mapper(value)).then(r => OptionImpl.some(r)),
+    );
+  }
+
+  ifSome(executor: (value: T) => void | PromiseLike<void>): Promise<void> {
+    return this.match({ none: () => {}, some: executor });
+  }
+
+  ifNone(executor: () => void | PromiseLike<void>): Promise<void> {
+    return this.match({ none: executor, some: () => {} });
+  }
+
+  unwrap(): Promise<T> {
+    return this.promise.then(opt => opt.unwrap());
+  }
+
+  expect(message: string | Error): Promise<T> {
+    return this.promise.then(opt => opt.expect(message));
+  }
+
+  unwrapOr<D>(defaultValue: D): Promise<T | D> {
+    return this.promise.then(opt => opt.unwrapOr(defaultValue));
+  }
+
+  unwrapOrElse<D>(defaultValueThunk: () => D | PromiseLike<D>): Promise<T | D> {
+    return this.match<D, T>({
+      none: defaultValueThunk,
+      some: value => value,
+    });
+  }
+
+  and<U>(other: Option<U> | PromiseLike<Option<U>>): AsyncOption<U> {
+    const otherPromise = handledPromise(other);
+    return this.andThen(() => otherPromise);
+  }
+
+  andThen<U>(
+    flatMapper: (value: T) => Option<U> | PromiseLike<Option<U>>,
+  ): AsyncOption<U> {
+    return AsyncOptionImpl.from(
+      this.match<Option<U>, Option<U>>({
+        none: () => OptionImpl.none(),
+        some: flatMapper,
+      }),
+    );
+  }
+
+  or<U>(other: Option<U> | PromiseLike<Option<U>>): AsyncOption<T | U> {
+    const otherPromise = handledPromise(other);
+    return this.orElse(() => otherPromise);
+  }
+
+  orElse<U>(
+    otherThunk: () => Option<U> | PromiseLike<Option<U>>,
+  ): AsyncOption<T | U> {
+    return AsyncOptionImpl.from(
+      this.match<Option<T | U>, Option<T | U>>({
+        none: otherThunk,
+        some: value => OptionImpl.some(value),
+      }),
+    );
+  }
+
+  filter(
+    predicate: (value: T) => boolean | PromiseLike<boolean>,
+  ): AsyncOption<T> {
+    return this.andThen(value =>
+      Promise.resolve(predicate(value)).then(keep =>
+        keep ? OptionImpl.some(value) : OptionImpl.none<T>(),
+      ),
+    );
+  }
+
+  flatten<U>(this: AsyncOption<Option<U>>): AsyncOption<U> {
+    return this.andThen(innerOption => innerOption);
+  }
+
+  array(): Promise<T[]> {
+    return this.promise.then(opt => opt.array());
+  }
+
+  xor<U>(other: Option<U> | PromiseLike<Option<U>>): AsyncOption<T | U> {
+    return AsyncOptionImpl.from(
+      Promise.all([this.promise, other]).then(([a, b]) =>
+        (a as Option<T | U>).xor(b),
+      ),
+    );
+  }
+
+  transpose<U, E>(this: AsyncOption<Result<U, E>>): AsyncResult<Option<U>, E> {
+    return AsyncResultImpl.from(this.then(opt => opt.transpose()));
+  }
+
+  equalsSome(other: T): Promise<boolean> {
+    return this.promise.then(opt => opt.equalsSome(other));
+  }
+
+  someSatisfies(
+    predicate: (val: T) => boolean | PromiseLike<boolean>,
+  ): Promise<boolean> {
+    return this.match({ none: () => false, some: predicate });
+  }
+}
@@ -0,0 +1,197 @@
+import AsyncOption from "../AsyncOption";
+import AsyncResult from "../AsyncResult";
+import Option from "../Option";
+import Result from "../Result";
+import AsyncOptionImpl from "./AsyncOptionImpl";
+import ResultImpl from "./ResultImpl";
+import handledPromise from "./handledPromise";
+
+export default class AsyncResultImpl<T, E> implements AsyncResult<T, E> {
+  private constructor(private promise: Promise<Result<T, E>>) {}
+
+  static ok<T, E>(value: T): AsyncResultImpl<T, E> {
+    return AsyncResultImpl.from(ResultImpl.ok<T, E>(value));
+  }
+
+  static err<T, E>(error: E): AsyncResultImpl<T, E> {
+    return AsyncResultImpl.from(ResultImpl.err<T, E>(error));
+  }
+
+  static from<T, E>(
+    result: Result<T, E> | PromiseLike<Result<T, E>>,
+  ): AsyncResultImpl<T, E> {
+    return new AsyncResultImpl(Promise.resolve(result));
+  }
+
+  then<R1 = Result<T, E>, R2 = never>(
+    onfulfilled?:
+      | ((value: Result<T, E>) => R1 | PromiseLike<R1>)
+      | undefined
+      | null,
+    onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | undefined | null,
+  ): Promise<R1 | R2> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  match<U, V>(matcher: {
+    ok: (value: T) => U | PromiseLike<U>;
+    err: (error: E) => V | PromiseLike<V>;
+  }): Promise<U | V> {
+    return this.promise.then(res =>
+      res.match<U | PromiseLike<U>, V | PromiseLike<V>>(matcher),
+    );
+  }
+
+  ok(): AsyncOption<T> {
+    return AsyncOptionImpl.from(this.promise.then(res => res.ok()));
+  }
+
+  err(): AsyncOption<E> {
+    return AsyncOptionImpl.from(this.promise.then(res => res.err()));
+  }
+
+  isOk(): Promise<boolean> {
+    return this.promise.then(res => res.isOk());
+  }
+
+  isErr(): Promise<boolean> {
+    return this.promise.then(res => res.isErr());
+  }
+
+  map<T2>(mapper: (value: T) => T2 | PromiseLike<T2>): AsyncResult<T2, E> {
+    return this.andThen(value =>
+      Promise.resolve(mapper(value)).then(t2 => ResultImpl.ok<T2, E>(t2)),
+    );
+  }
+
+  mapErr<E2>(mapper: (error: E) => E2 | PromiseLike<E2>): AsyncResult<T, E2> {
+    return this.orElse(error =>
+      Promise.resolve(mapper(error)).then(e2 => ResultImpl.err<T, E2>(e2)),
+    );
+  }
+
+  ifOk(executor: (value: T) => void | PromiseLike<void>): Promise<void> {
+    return this.match({ ok: executor, err: () => {} });
+  }
+
+  ifErr(executor: (error: E) => void | PromiseLike<void>): Promise<void> {
+    return this.match({ ok: () => {}, err: executor });
+  }
+
+  unwrap(): Promise<T> {
+    return this.promise.then(res => res.unwrap());
+  }
+
+  safeUnwrap(this: AsyncResult<any, never>): Promise<T> {
+    return ((this as unknown) as AsyncResultImpl<T, never>).promise.then(res =>
+      res.safeUnwrap(),
+    );
+  }
+
+  safeUnwrapErr(this: AsyncResult<never, any>): Promise<E> {
+    return ((this as unknown) as AsyncResultImpl<never, E>).promise.then(res =>
+      res.safeUnwrapErr(),
+    );
+  }
+
+  unwrapErr(): Promise<E> {
+    return this.promise.then(res => res.unwrapErr());
+  }
+
+  unwrapOrThrowErr(): Promise<T> {
+    return this.promise.then(res => res.unwrapOrThrowErr());
+  }
+
+  unwrapErrOrThrowOk(): Promise<E> {
+    return this.promise.then(res => res.unwrapErrOrThrowOk());
+  }
+
+  expect(message: string | Error): Promise<T> {
+    return this.promise.then(res => res.expect(message));
+  }
+
+  expectErr(message: string | Error): Promise<E> {
+    return this.promise.then(res => res.expectErr(message));
+  }
+
+  unwrapOr<D>(defaultValue: D): Promise<T | D> {
+    return this.promise.then(res => res.unwrapOr(defaultValue));
+  }
+
+  unwrapOrElse<D>(
+    defaultValueThunk: (error: E) => D | PromiseLike<D>,
+  ): Promise<T | D> {
+    return this.match<T, D>({
+      ok: value => value,
+      err: defaultValueThunk,
+    });
+  }
+
+  and<T2, E2>(
+    other: Result<T2, E2> | PromiseLike<Result<T2, E2>>,
+  ): AsyncResult<T2, E | E2> {
+    const otherPromise = handledPromise(other);
+    return this.andThen(() => otherPromise);
+  }
+
+  andThen<T2, E2>(
+    flatMapper: (value: T) => Result<T2, E2> | PromiseLike<Result<T2, E2>>,
+  ): AsyncResult<T2, E | E2> {
+    return AsyncResultImpl.from(
+      this.match<Result<T2, E | E2>, Result<T2, E | E2>>({
+        ok: flatMapper,
+        err: e => ResultImpl.err(e),
+      }),
+    );
+  }
+
+  or<T2, E2>(
+    other: Result<T2, E2> | PromiseLike<Result<T2, E2>>,
+  ): AsyncResult<T | T2, E2> {
+    const otherPromise = handledPromise(other);
+    return this.orElse(() => otherPromise);
+  }
+
+  orElse<T2, E2>(
+    otherThunk: (error: E) => Result<T2, E2> | PromiseLike<Result<T2, E2>>,
+  ): AsyncResult<T | T2, E2> {
+    return AsyncResultImpl.from(
+      this.match<Result<T | T2, E2>, Result<T | T2, E2>>({
+        ok: t => ResultImpl.ok(t),
+        err: otherThunk,
+      }),
+    );
+  }
+
+  array(): Promise<[] | [T]> {
+    return this.promise.then(res => res.array());
+  }
+
+  transpose<U>(this: AsyncResult<Option<U>, E>): AsyncOption<Result<U, E>> {
+    return AsyncOptionImpl.from(this.then(res => res.transpose()));
+  }
+
+  okSatisfies(
+    predicate: (value: T) => boolean | PromiseLike<boolean>,
+  ): Promise<boolean> {
+    return this.match({ ok: predicate, err: () => false });
+  }
+
+  errSatisfies(
+    predicate: (error: E) => boolean | PromiseLike<boolean>,
+  ): Promise<boolean> {
+    return this.match({ ok: () => false, err: predicate });
+  }
+
+  reverse(): AsyncResult<E, T> {
+    return AsyncResultImpl.from(this.promise.then(res => res.reverse()));
+  }
+
+  async *bind(): AsyncGenerator<["ok", unknown] | ["err", E], T, unknown> {
+    return yield* (await this.promise).bind();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    yield* await this.promise;
+  }
+}
@@ -0,0 +1,152 @@
+import Iter from "../Iter";
+import Option from "../Option";
+import Result from "../Result";
+import OptionImpl from "./OptionImpl";
+import ResultImpl from "./ResultImpl";
+
+export default class IterImpl<T> implements Iter<T> {
+  private constructor(private pull: () => Option<T>) {}
+
+  static from<T>(iterable: Iterable<T>): Iter<T> {
+    const iterator = iterable[Symbol.iterator]();
+    return new IterImpl(() => {
+      const step = iterator.next();
+      return step.done ? OptionImpl.none() : OptionImpl.some(step.value);
+    });
+  }
+
+  next(): Option<T> {
+    return this.pull();
+  }
+
+  map<U>(mapper: (value: T) => U): Iter<U> {
+    return new IterImpl(() => this.next().map(mapper));
+  }
+
+  filter(predicate: (value: T) => boolean): Iter<T> {
+    return this.filterMap(value =>
+      predicate(value) ? OptionImpl.some(value) : OptionImpl.none(),
+    );
+  }
+
+  filterMap<U>(filterMapper: (value: T) => Option<U>): Iter<U> {
+    return new IterImpl(() => this.findMap(filterMapper));
+  }
+
+  findMap<U>(finder: (value: T) => Option<U>): Option<U> {
+    for (let next = this.next(); next.isSome(); next = this.next()) {
+      const found = finder(next.value);
+      if (found.isSome()) {
+        return found;
+      }
+    }
+    return OptionImpl.none();
+  }
+
+  takeWhile(predicate: (value: T) => boolean): Iter<T> {
+    let isDone = false;
+    return new IterImpl(() => {
+      if (isDone) {
+        return OptionImpl.none();
+      }
+      const next = this.next().filter(predicate);
+      isDone = next.isNone();
+      return next;
+    });
+  }
+
+  position(predicate: (value: T) => boolean): Option<number> {
+    let index = -1;
+    return this.findMap(value => {
+      index++;
+      return predicate(value) ? OptionImpl.some(index) : OptionImpl.none();
+    });
+  }
+
+  nth(n: number): Option<T> {
+    for (let i = 0; i < n; i++) {
+      if (this.next().isNone()) {
+        return OptionImpl.none();
+      }
+    }
+    return this.next();
+  }
+
+  last(): Option<T> {
+    let last = OptionImpl.none<T>();
+    for (let next = this.next(); next.isSome(); next = this.next()) {
+      last = next;
+    }
+    return last;
+  }
+
+  min(compare: (a: T, b: T) => number = defaultCompare): Option<T> {
+    return this.reduce((min, value) => (compare(value, min) < 0 ? value : min));
+  }
+
+  max(compare: (a: T, b: T) => number = defaultCompare): Option<T> {
+    return this.reduce((max, value) =>
+      compare(value, max) >= 0 ? value : max,
+    );
+  }
+
+  tryFold<A, E>(
+    initialValue: A,
+    folder: (accumulator: A, value: T) => Result<A, E>,
+  ): Result<A, E> {
+    let accumulator = initialValue;
+    for (let next = this.next(); next.isSome(); next = this.next()) {
+      const folded = folder(accumulator, next.value);
+      if (folded.isErr()) {
+        return folded;
+      }
+      accumulator = folded.value;
+    }
+    return ResultImpl.ok(accumulator);
+  }
+
+  tryForEach<E>(executor: (value: T) => Result<unknown, E>): Result<void, E> {
+    return this.tryFold<void, E>(undefined, (_, value) =>
+      executor(value).map(() => undefined),
+    );
+  }
+
+  collect<U, E>(this: Iter<Result<U, E>>): Result<U[], E> {
+    const values: U[] = [];
+    return this.tryForEach(res => res.map(value => values.push(value))).map(
+      () => values,
+    );
+  }
+
+  toArray(): T[] {
+    const values: T[] = [];
+    for (let next = this.next(); next.isSome(); next = this.next()) {
+      values.push(next.value);
+    }
+    return values;
+  }
+
+  [Symbol.iterator](): Iterator<T> {
+    return {
+      next: () =>
+        this.next().match<IteratorResult<T>, IteratorResult<T>>({
+          none: () => ({ done: true, value: undefined }),
+          some: value => ({ done: false, value }),
+        }),
+    };
+  }
+
+  private reduce(reducer: (accumulator: T, value: T) => T): Option<T> {
+    return this.next().map(first => {
+      let accumulator = first;
+      for (let next = this.next(); next.isSome(); next = this.next()) {
+        accumulator = reducer(accumulator, next.value);
+      }
+      return accumulator;
+    });
+  }
+}
+
+function defaultCompare<T>(a: T, b: T): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -1,32 +1,77 @@
-import Option from "../Option";
+import DebugOptions from "../DebugOptions";
+import Iter from "../Iter";
+import IterImpl from "./IterImpl";
+import Option, { BaseOption, None, Some } from "../Option";
 import Result from "../Result";
 import ResultImpl from "./ResultImpl";
-import UnwrapError from "./UnwrapError";
+import UnwrapError from "../UnwrapError";
+import debugFormat from "./debugFormat";
+import { beginPanic } from "./panicking";
+import {
+  FNV_OFFSET_BASIS,
+  deepCompare,
+  deepEquals,
+  deepHash,
+  hashInt,
+} from "./structural";
 
-export default class OptionImpl<T> implements Option<T> {
-  private constructor(private isNone_: boolean, private value: T | undefined) {}
+/**
+ * Marks canonical options.
+ * `Symbol.for()` returns the same symbol in every copy of this package
+ * and every realm, so the brand survives where `instanceof` does not.
+ */
+const OPTION_BRAND = Symbol.for("rusty-ts/Option");
+
+const INSPECT_CUSTOM = Symbol.for("nodejs.util.inspect.custom");
+
+export default class OptionImpl<T> implements BaseOption<T> {
+  readonly value!: T;
+
+  private constructor(readonly kind: "some" | "none", value: T | undefined) {
+    if (kind === "some") {
+      this.value = value as T;
+    }
+  }
 
   static some<T>(value: T): Option<T> {
-    return new OptionImpl(false, value);
+    return new OptionImpl("some", value);
   }
 
   static none<T>(): Option<T> {
-    return new OptionImpl<T>(true, undefined);
+    return new OptionImpl<T>("none", undefined);
+  }
+
+  static isOption(value: unknown): value is Option<unknown> {
+    return (
+      "object" === typeof value &&
+      value !== null &&
+      (value as { [OPTION_BRAND]?: unknown })[OPTION_BRAND] === true
+    );
+  }
+
+  static adapt<T>(opt: Pick<BaseOption<T>, "match">): Option<T> {
+    if (opt instanceof OptionImpl) {
+      return opt;
+    }
+    return opt.match({
+      none: () => OptionImpl.none<T>(),
+      some: value => OptionImpl.some(value),
+    });
   }
 
   match<N, S>(matcher: { none: () => N; some: (value: T) => S }): N | S {
     if (this.isNone()) {
       return matcher.none();
     } else {
-      return matcher.some(this.value as T);
+      return matcher.some(this.value);
     }
   }
 
-  isNone(): boolean {
-    return this.isNone_;
+  isNone(): this is None<T> {
+    return this.kind === "none";
   }
 
-  isSome(): boolean {
+  isSome(): this is Some<T> {
     return !this.isNone();
   }
 
@@ -48,7 +93,19 @@ export default class OptionImpl<T> implements Option<T> {
   }
 
   unwrap(): T {
-    return this.expect("Tried to call unwrap() on option.none()");
+    return this.match({
+      none: () => {
+        throw beginPanic(
+          "Option.prototype.unwrap",
+          undefined,
+          new UnwrapError(
+            "called `Option::unwrap()` on a `None` value",
+            undefined,
+          ),
+        );
+      },
+      some: value => value,
+    });
   }
 
   expect(message: string): T;
@@ -58,9 +115,13 @@ export default class OptionImpl<T> implements Option<T> {
   expect(message: string | Error): T {
     return this.match({
       none: () => {
-        const error =
-          "string" === typeof message ? new UnwrapError(message) : message;
-        throw error;
+        throw beginPanic(
+          "Option.prototype.expect",
+          undefined,
+          "string" === typeof message
+            ? new UnwrapError(message, undefined)
+            : message,
+        );
       },
       some: value => value,
     });
@@ -155,4 +216,170 @@ export default class OptionImpl<T> implements Option<T> {
       some: predicate,
     });
   }
+
+  zip<U>(other: Option<U>): Option<[T, U]> {
+    return this.zipWith(other, (value, otherValue): [T, U] => [
+      value,
+      otherValue,
+    ]);
+  }
+
+  zipWith<U, R>(
+    other: Option<U>,
+    zipper: (value: T, otherValue: U) => R,
+  ): Option<R> {
+    return this.andThen(value =>
+      other.map(otherValue => zipper(value, otherValue)),
+    );
+  }
+
+  unzip<A, B>(this: Option<[A, B]>): [Option<A>, Option<B>] {
+    return [this.map(pair => pair[0]), this.map(pair => pair[1])];
+  }
+
+  mapOr<D, R>(defaultValue: D, mapper: (value: T) => R): D | R {
+    return this.match<D, R>({
+      none: () => defaultValue,
+      some: mapper,
+    });
+  }
+
+  mapOrElse<D, R>(defaultValueThunk: () => D, mapper: (value: T) => R): D | R {
+    return this.match({
+      none: defaultValueThunk,
+      some: mapper,
+    });
+  }
+
+  okOr<E>(error: E): Result<T, E> {
+    return this.okOrElse(() => error);
+  }
+
+  okOrElse<E>(errorThunk: () => E): Result<T, E> {
+    return this.match({
+      none: () => ResultImpl.err<T, E>(errorThunk()),
+      some: value => ResultImpl.ok<T, E>(value),
+    });
+  }
+
+  inspect(executor: (value: T) => void): Option<T> {
+    this.ifSome(executor);
+    return this;
+  }
+
+  isSomeAnd(predicate: (value: T) => boolean): boolean {
+    return this.someSatisfies(predicate);
+  }
+
+  isNoneOr(predicate: (value: T) => boolean): boolean {
+    return this.match({
+      none: () => true,
+      some: predicate,
+    });
+  }
+
+  contains(
+    other: T,
+    equals: (value: T, other: T) => boolean = (a, b) => a === b,
+  ): boolean {
+    return this.someSatisfies(value => equals(value, other));
+  }
+
+  getOrInsertWith(valueThunk: () => T): [T, Option<T>] {
+    if (this.isSome()) {
+      return [this.value, this];
+    }
+    const value = valueThunk();
+    return [value, OptionImpl.some(value)];
+  }
+
+  andLazy<U>(otherThunk: () => Option<U>): Option<U> {
+    return this.andThen(() => otherThunk());
+  }
+
+  equals(
+    other: Option<T>,
+    equals: (a: T, b: T) => boolean = deepEquals,
+  ): boolean {
+    return this.match({
+      none: () => other.isNone(),
+      some: value => other.isSomeAnd(otherValue => equals(value, otherValue)),
+    });
+  }
+
+  compare(
+    other: Option<T>,
+    compare: (a: T, b: T) => number = deepCompare,
+  ): number {
+    return this.match({
+      none: () => (other.isNone() ? 0 : -1),
+      some: value => other.mapOr(1, otherValue => compare(value, otherValue)),
+    });
+  }
+
+  hash(hash: (value: T) => number = deepHash): number {
+    return this.match({
+      none: () => hashInt(FNV_OFFSET_BASIS, 0),
+      some: value => hashInt(hashInt(FNV_OFFSET_BASIS, 1), hash(value)),
+    });
+  }
+
+  toJSON(): unknown {
+    return this.match({
+      none: () => null,
+      // `JSON.stringify()` does not call `toJSON()` on the return value
+      // of `toJSON()`, so nested options and results are converted here.
+      some: value => (hasToJSON(value) ? value.toJSON() : (value as unknown)),
+    });
+  }
+
+  toString(options?: DebugOptions): string {
+    return debugFormat(this, options);
+  }
+
+  iter(): Iter<T> {
+    return IterImpl.from(this.array());
+  }
+
+  *bind(): Generator<["some", unknown] | ["none"], T, unknown> {
+    if (this.isNone()) {
+      yield ["none"];
+      // Only reached if the iterator is resumed outside of `option.gen()`.
+      return (undefined as unknown) as T;
+    }
+    yield ["some", this.value];
+    return this.value;
+  }
+
+  *[Symbol.iterator](): Generator<T, void, undefined> {
+    if (this.isSome()) {
+      yield this.value;
+    }
+  }
+}
+
+Object.defineProperty(OptionImpl.prototype, OPTION_BRAND, { value: true });
+Object.defineProperty(OptionImpl.prototype, Symbol.toStringTag, {
+  value: "Option",
+});
+// Used by `console.log()` and `util.inspect()` in Node.
+Object.defineProperty(OptionImpl.prototype, INSPECT_CUSTOM, {
+  value: function(
+    this: OptionImpl<unknown>,
+    depth: number | null,
+    options: { compact?: boolean | number },
+  ): string {
+    return this.toString({
+      alternate: options.compact === false,
+      depth: depth === null ? Infinity : depth,
+    });
+  },
+});
+
+function hasToJSON(value: unknown): value is { toJSON(): unknown } {
+  return (
+    "object" === typeof value &&
+    value !== null &&
+    "function" === typeof (value as { toJSON?: unknown }).toJSON
+  );
 }
@@ -0,0 +1,83 @@
+/**
+ * A small seeded pseudorandom number generator (mulberry32),
+ * so that conformance checks are reproducible without
+ * depending on a property-testing library.
+ */
+export default class Random {
+  private constructor(private state: number) {}
+
+  static seeded(seed: number): Random {
+    return new Random(seed >>> 0);
+  }
+
+  /**
+   * Returns a number in `[0, 1)`.
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Returns an integer in `[min, max)`.
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min));
+  }
+
+  bool(): boolean {
+    return this.next() < 0.5;
+  }
+
+  pick<T>(items: T[]): T {
+    return items[this.int(0, items.length)];
+  }
+
+  /**
+   * Returns an arbitrary primitive, array, or plain object,
+   * nested at most `depth` levels deep.
+   */
+  value(depth = 2): unknown {
+    switch (this.int(0, depth > 0 ? 8 : 6)) {
+      case 0:
+        return undefined;
+      case 1:
+        return null;
+      case 2:
+        return this.bool();
+      case 3:
+        return this.int(-100, 100);
+      case 4:
+        return this.pick([0.5, -0, NaN, Infinity, Number.MAX_SAFE_INTEGER]);
+      case 5:
+        return this.string();
+      case 6: {
+        const items: unknown[] = [];
+        for (let length = this.int(0, 4); items.length < length; ) {
+          items.push(this.value(depth - 1));
+        }
+        return items;
+      }
+      default: {
+        const fields: { [key: string]: unknown } = {};
+        ["a", "b", "c"].forEach(key => {
+          if (this.bool()) {
+            fields[key] = this.value(depth - 1);
+          }
+        });
+        return fields;
+      }
+    }
+  }
+
+  private string(): string {
+    let s = "";
+    for (let length = this.int(0, 6); s.length < length; ) {
+      s += this.pick(["a", "b", "z", " ", "é", "\n"]);
+    }
+    return s;
+  }
+}
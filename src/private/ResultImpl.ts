@@ -1,24 +1,74 @@
+import ContextError from "../ContextError";
+import DebugOptions from "../DebugOptions";
+import Iter from "../Iter";
+import IterImpl from "./IterImpl";
 import Option from "../Option";
 import OptionImpl from "./OptionImpl";
-import Result from "../Result";
-import UnwrapError from "./UnwrapError";
+import Result, { BaseResult, Err, Ok } from "../Result";
+import UnwrapError from "../UnwrapError";
+import debugFormat from "./debugFormat";
+import { beginPanic } from "./panicking";
+import deepClone from "./deepClone";
+import {
+  FNV_OFFSET_BASIS,
+  deepCompare,
+  deepEquals,
+  deepHash,
+  hashInt,
+} from "./structural";
 
-export default class ResultImpl<T, E> implements Result<T, E> {
-  private constructor(private isErr_: boolean, private value: T | E) {}
+/**
+ * Marks canonical results.
+ * `Symbol.for()` returns the same symbol in every copy of this package
+ * and every realm, so the brand survives where `instanceof` does not.
+ */
+const RESULT_BRAND = Symbol.for("rusty-ts/Result");
 
-  static ok<T, E>(value: T): ResultImpl<T, E> {
-    return new ResultImpl<T, E>(false, value);
+const INSPECT_CUSTOM = Symbol.for("nodejs.util.inspect.custom");
+
+export default class ResultImpl<T, E> implements BaseResult<T, E> {
+  readonly value!: T;
+  readonly error!: E;
+
+  private constructor(readonly kind: "ok" | "err", valueOrError: T | E) {
+    if (kind === "ok") {
+      this.value = valueOrError as T;
+    } else {
+      this.error = valueOrError as E;
+    }
+  }
+
+  static ok<T, E>(value: T): Result<T, E> {
+    return new ResultImpl<T, E>("ok", value);
   }
 
-  static err<T, E>(error: E): ResultImpl<T, E> {
-    return new ResultImpl<T, E>(true, error);
+  static err<T, E>(error: E): Result<T, E> {
+    return new ResultImpl<T, E>("err", error);
+  }
+
+  static isResult(value: unknown): value is Result<unknown, unknown> {
+    return (
+      "object" === typeof value &&
+      value !== null &&
+      (value as { [RESULT_BRAND]?: unknown })[RESULT_BRAND] === true
+    );
+  }
+
+  static adapt<T, E>(res: Pick<BaseResult<T, E>, "match">): Result<T, E> {
+    if (res instanceof ResultImpl) {
+      return res;
+    }
+    return res.match({
+      ok: value => ResultImpl.ok<T, E>(value),
+      err: error => ResultImpl.err<T, E>(error),
+    });
   }
 
   match<U, V>(matcher: { ok: (value: T) => U; err: (error: E) => V }): U | V {
-    if (this.isErr_) {
-      return matcher.err(this.value as E);
+    if (this.kind === "err") {
+      return matcher.err(this.error);
     } else {
-      return matcher.ok(this.value as T);
+      return matcher.ok(this.value);
     }
   }
 
@@ -36,12 +86,12 @@ export default class ResultImpl<T, E> implements Result<T, E> {
     });
   }
 
-  isOk(): this is Result<T, never> {
-    return !this.isErr_;
+  isOk(): this is Ok<T, E> {
+    return this.kind === "ok";
   }
 
-  isErr(): this is Result<never, E> {
-    return this.isErr_;
+  isErr(): this is Err<T, E> {
+    return this.kind === "err";
   }
 
   map<T2>(mapper: (value: T) => T2): Result<T2, E> {
@@ -67,7 +117,22 @@ export default class ResultImpl<T, E> implements Result<T, E> {
   }
 
   unwrap(): T {
-    return this.expect("Tried to call unwrap() on result.err()");
+    return this.match({
+      ok: value => value,
+      err: error => {
+        throw beginPanic(
+          "Result.prototype.unwrap",
+          error,
+          new UnwrapError(
+            `called \`Result::unwrap()\` on an \`Err\` value: ${debugFormat(
+              error,
+            )}`,
+            error,
+            { cause: error },
+          ),
+        );
+      },
+    });
   }
 
   safeUnwrap(this: Result<any, never>): T {
@@ -75,18 +140,32 @@ export default class ResultImpl<T, E> implements Result<T, E> {
   }
 
   safeUnwrapErr(this: Result<never, any>): E {
-    return (this as any).value;
+    return (this as any).error;
   }
 
   unwrapErr(): E {
-    return this.expectErr("Tried to call unwrapErr() on result.ok()");
+    return this.match({
+      ok: value => {
+        throw beginPanic(
+          "Result.prototype.unwrapErr",
+          value,
+          new UnwrapError(
+            `called \`Result::unwrapErr()\` on an \`Ok\` value: ${debugFormat(
+              value,
+            )}`,
+            value,
+          ),
+        );
+      },
+      err: error => error,
+    });
   }
 
   unwrapOrThrowErr(): T {
     return this.match({
       ok: t => t,
       err: e => {
-        throw e;
+        throw beginPanic("Result.prototype.unwrapOrThrowErr", e, e);
       },
     });
   }
@@ -94,7 +173,7 @@ export default class ResultImpl<T, E> implements Result<T, E> {
   unwrapErrOrThrowOk(): E {
     return this.match({
       ok: t => {
-        throw t;
+        throw beginPanic("Result.prototype.unwrapErrOrThrowOk", t, t);
       },
       err: e => e,
     });
@@ -103,20 +182,28 @@ export default class ResultImpl<T, E> implements Result<T, E> {
   expect(message: string | Error): T {
     return this.match({
       ok: value => value,
-      err: () => {
-        const error =
-          "string" === typeof message ? new UnwrapError(message) : message;
-        throw error;
+      err: error => {
+        throw beginPanic(
+          "Result.prototype.expect",
+          error,
+          "string" === typeof message
+            ? new UnwrapError(message, error, { cause: error })
+            : message,
+        );
       },
     });
   }
 
   expectErr(message: string | Error): E {
     return this.match({
-      ok: () => {
-        const error =
-          "string" === typeof message ? new UnwrapError(message) : message;
-        throw error;
+      ok: value => {
+        throw beginPanic(
+          "Result.prototype.expectErr",
+          value,
+          "string" === typeof message
+            ? new UnwrapError(message, value)
+            : message,
+        );
       },
       err: value => value,
     });
@@ -132,7 +219,7 @@ export default class ResultImpl<T, E> implements Result<T, E> {
   unwrapOrElse<D>(defaultValueThunk: (error: E) => D): T | D {
     return this.match({
       ok: value => value,
-      err: () => defaultValueThunk(this.value as E),
+      err: () => defaultValueThunk(this.error),
     });
   }
 
@@ -204,4 +291,168 @@ export default class ResultImpl<T, E> implements Result<T, E> {
       err: e => ResultImpl.ok(e),
     });
   }
+
+  mapOr<D, R>(defaultValue: D, mapper: (value: T) => R): D | R {
+    return this.match<R, D>({
+      ok: mapper,
+      err: () => defaultValue,
+    });
+  }
+
+  mapOrElse<D, R>(
+    defaultValueThunk: (error: E) => D,
+    mapper: (value: T) => R,
+  ): D | R {
+    return this.match({
+      ok: mapper,
+      err: defaultValueThunk,
+    });
+  }
+
+  inspect(executor: (value: T) => void): Result<T, E> {
+    this.ifOk(executor);
+    return this;
+  }
+
+  inspectErr(executor: (error: E) => void): Result<T, E> {
+    this.ifErr(executor);
+    return this;
+  }
+
+  isOkAnd(predicate: (value: T) => boolean): boolean {
+    return this.okSatisfies(predicate);
+  }
+
+  isErrAnd(predicate: (error: E) => boolean): boolean {
+    return this.errSatisfies(predicate);
+  }
+
+  flatten<U, E2>(this: Result<Result<U, E2>, E>): Result<U, E | E2> {
+    return this.andThen(innerResult => innerResult);
+  }
+
+  intoOk(this: Result<any, never>): T {
+    return this.safeUnwrap();
+  }
+
+  intoErr(this: Result<never, any>): E {
+    return this.safeUnwrapErr();
+  }
+
+  andThenErr<T2, E2>(
+    flatMapper: (error: E) => Result<T2, E2>,
+  ): Result<T | T2, E2> {
+    return this.orElse(flatMapper);
+  }
+
+  cloned(): Result<T, E> {
+    return this.match({
+      ok: value => ResultImpl.ok<T, E>(deepClone(value)),
+      err: error => ResultImpl.err<T, E>(deepClone(error)),
+    });
+  }
+
+  unwrapOrDefault(defaultFactory: () => T): T {
+    return this.match({
+      ok: value => value,
+      err: () => defaultFactory(),
+    });
+  }
+
+  context(context: string): Result<T, ContextError<E>> {
+    return this.mapErr(error => new ContextError(context, error));
+  }
+
+  withContext(contextThunk: (error: E) => string): Result<T, ContextError<E>> {
+    return this.mapErr(error => new ContextError(contextThunk(error), error));
+  }
+
+  equals(
+    other: Result<T, E>,
+    equalsOk: (a: T, b: T) => boolean = deepEquals,
+    equalsErr: (a: E, b: E) => boolean = deepEquals,
+  ): boolean {
+    return this.match({
+      ok: value => other.isOkAnd(otherValue => equalsOk(value, otherValue)),
+      err: error => other.isErrAnd(otherError => equalsErr(error, otherError)),
+    });
+  }
+
+  compare(
+    other: Result<T, E>,
+    compareOk: (a: T, b: T) => number = deepCompare,
+    compareErr: (a: E, b: E) => number = deepCompare,
+  ): number {
+    return this.match({
+      ok: value =>
+        other.match({
+          ok: otherValue => compareOk(value, otherValue),
+          err: () => -1,
+        }),
+      err: error =>
+        other.match({
+          ok: () => 1,
+          err: otherError => compareErr(error, otherError),
+        }),
+    });
+  }
+
+  hash(
+    hashOk: (value: T) => number = deepHash,
+    hashErr: (error: E) => number = deepHash,
+  ): number {
+    return this.match({
+      ok: value => hashInt(hashInt(FNV_OFFSET_BASIS, 0), hashOk(value)),
+      err: error => hashInt(hashInt(FNV_OFFSET_BASIS, 1), hashErr(error)),
+    });
+  }
+
+  toJSON(): { Ok: T } | { Err: E } {
+    return this.match<{ Ok: T }, { Err: E }>({
+      ok: value => ({ Ok: value }),
+      err: error => ({ Err: error }),
+    });
+  }
+
+  toString(options?: DebugOptions): string {
+    return debugFormat(this, options);
+  }
+
+  iter(): Iter<T> {
+    return IterImpl.from(this.array());
+  }
+
+  *bind(): Generator<["ok", unknown] | ["err", E], T, unknown> {
+    if (this.kind === "err") {
+      yield ["err", this.error];
+      // Only reached if the iterator is resumed outside of `result.gen()`.
+      return (undefined as unknown) as T;
+    }
+    yield ["ok", this.value];
+    return this.value;
+  }
+
+  *[Symbol.iterator](): Generator<T, void, undefined> {
+    if (this.kind === "ok") {
+      yield this.value;
+    }
+  }
 }
+
+Object.defineProperty(ResultImpl.prototype, RESULT_BRAND, { value: true });
+Object.defineProperty(ResultImpl.prototype, Symbol.toStringTag, {
+  value: "Result",
+});
+// Used by `console.log()` and `util.inspect()` in Node.
+Object.defineProperty(ResultImpl.prototype, INSPECT_CUSTOM, {
+  value: function(
+    this: ResultImpl<unknown, unknown>,
+    depth: number | null,
+    options: { compact?: boolean | number },
+  ): string {
+    return this.toString({
+      alternate: options.compact === false,
+      depth: depth === null ? Infinity : depth,
+    });
+  },
+});
@@ -0,0 +1,276 @@
+import UnwrapError from "../UnwrapError";
+import OptionImpl from "./OptionImpl";
+import ResultImpl from "./ResultImpl";
+import debugFormat from "./debugFormat";
+import { beginPanic } from "./panicking";
+
+type Method = (this: unknown, ...args: unknown[]) => unknown;
+
+interface Replaced {
+  methods: { [key: string]: unknown };
+  key: string;
+  original: unknown;
+}
+
+/**
+ * The methods that `enableDebugChecks()` replaced, so that
+ * `disableDebugChecks()` can put them back.
+ * `undefined` while debug checks are disabled.
+ */
+let replaced: Replaced[] | undefined;
+
+export function debugChecksEnabled(): boolean {
+  return replaced !== undefined;
+}
+
+/**
+ * Replaces the factories and the unchecked methods of `OptionImpl`
+ * and `ResultImpl` with versions that validate their preconditions.
+ *
+ * The checks live in wrappers rather than behind a flag,
+ * so that they cost nothing while disabled.
+ */
+export function enableDebugChecks(): void {
+  if (replaced !== undefined) {
+    return;
+  }
+  const originals: Replaced[] = [];
+  replaced = originals;
+
+  wrap(originals, OptionImpl, "some", some => (value: unknown) =>
+    Object.freeze(some(value)),
+  );
+  wrap(originals, OptionImpl, "none", none => () => Object.freeze(none()));
+  wrap(originals, ResultImpl, "ok", ok => (value: unknown) =>
+    Object.freeze(ok(value)),
+  );
+  wrap(originals, ResultImpl, "err", err => (error: unknown) =>
+    Object.freeze(err(error)),
+  );
+
+  wrap(
+    originals,
+    OptionImpl.prototype,
+    "match",
+    match =>
+      function(this: OptionImpl<unknown>, matcher: unknown) {
+        checkMatcher("Option", "none", "some", matcher);
+        return match.call(this, matcher);
+      },
+  );
+  wrap(
+    originals,
+    OptionImpl.prototype,
+    "flatten",
+    flatten =>
+      function(this: OptionImpl<unknown>) {
+        checkSomeIs("flatten", this, "an `Option`", OptionImpl.isOption);
+        return flatten.call(this);
+      },
+  );
+  wrap(
+    originals,
+    OptionImpl.prototype,
+    "transpose",
+    transpose =>
+      function(this: OptionImpl<unknown>) {
+        checkSomeIs("transpose", this, "a `Result`", ResultImpl.isResult);
+        return transpose.call(this);
+      },
+  );
+
+  wrap(
+    originals,
+    ResultImpl.prototype,
+    "match",
+    match =>
+      function(this: ResultImpl<unknown, unknown>, matcher: unknown) {
+        checkMatcher("Result", "ok", "err", matcher);
+        return match.call(this, matcher);
+      },
+  );
+  wrap(
+    originals,
+    ResultImpl.prototype,
+    "safeUnwrap",
+    safeUnwrap =>
+      function(this: ResultImpl<unknown, unknown>) {
+        checkNever("safeUnwrap", this, "err");
+        return safeUnwrap.call(this);
+      },
+  );
+  wrap(
+    originals,
+    ResultImpl.prototype,
+    "intoOk",
+    intoOk =>
+      function(this: ResultImpl<unknown, unknown>) {
+        checkNever("intoOk", this, "err");
+        return intoOk.call(this);
+      },
+  );
+  wrap(
+    originals,
+    ResultImpl.prototype,
+    "safeUnwrapErr",
+    safeUnwrapErr =>
+      function(this: ResultImpl<unknown, unknown>) {
+        checkNever("safeUnwrapErr", this, "ok");
+        return safeUnwrapErr.call(this);
+      },
+  );
+  wrap(
+    originals,
+    ResultImpl.prototype,
+    "intoErr",
+    intoErr =>
+      function(this: ResultImpl<unknown, unknown>) {
+        checkNever("intoErr", this, "ok");
+        return intoErr.call(this);
+      },
+  );
+  wrap(
+    originals,
+    ResultImpl.prototype,
+    "flatten",
+    flatten =>
+      function(this: ResultImpl<unknown, unknown>) {
+        checkOkIs("flatten", this, "a `Result`", ResultImpl.isResult);
+        return flatten.call(this);
+      },
+  );
+  wrap(
+    originals,
+    ResultImpl.prototype,
+    "transpose",
+    transpose =>
+      function(this: ResultImpl<unknown, unknown>) {
+        checkOkIs("transpose", this, "an `Option`", OptionImpl.isOption);
+        return transpose.call(this);
+      },
+  );
+}
+
+/**
+ * Restores the methods replaced by `enableDebugChecks()`.
+ * Instances created while debug checks were enabled stay frozen.
+ */
+export function disableDebugChecks(): void {
+  if (replaced === undefined) {
+    return;
+  }
+  replaced.forEach(({ methods, key, original }) => {
+    methods[key] = original;
+  });
+  replaced = undefined;
+}
+
+/**
+ * Replaces `target[key]` with `wrapper(original)`, recording the original
+ * in `originals`. Static methods are bound to `target` before wrapping.
+ */
+function wrap<O extends object>(
+  originals: Replaced[],
+  target: O,
+  key: keyof O & string,
+  wrapper: (original: Method) => unknown,
+): void {
+  const methods = target as { [key: string]: unknown };
+  const original = methods[key] as Method;
+  originals.push({ methods, key, original });
+  methods[key] = wrapper(
+    target instanceof Function ? original.bind(target) : original,
+  );
+}
+
+function checkMatcher(
+  type: "Option" | "Result",
+  first: string,
+  second: string,
+  matcher: unknown,
+): void {
+  if (
+    "object" === typeof matcher &&
+    matcher !== null &&
+    "function" === typeof (matcher as { [key: string]: unknown })[first] &&
+    "function" === typeof (matcher as { [key: string]: unknown })[second]
+  ) {
+    return;
+  }
+  throw beginPanic(
+    `${type}.prototype.match`,
+    matcher,
+    new UnwrapError(
+      `called \`${type}::match()\` with a matcher whose \`${first}\` and \`${second}\` are not both functions: ${debugFormat(
+        matcher,
+      )}`,
+      matcher,
+    ),
+  );
+}
+
+function checkSomeIs(
+  method: string,
+  opt: OptionImpl<unknown>,
+  expected: string,
+  isExpected: (value: unknown) => boolean,
+): void {
+  if (opt.isSome() && !isExpected(opt.value)) {
+    throw beginPanic(
+      `Option.prototype.${method}`,
+      opt.value,
+      new UnwrapError(
+        `called \`Option::${method}()\` on a \`Some\` value that is not ${expected}: ${debugFormat(
+          opt.value,
+        )}`,
+        opt.value,
+      ),
+    );
+  }
+}
+
+function checkOkIs(
+  method: string,
+  res: ResultImpl<unknown, unknown>,
+  expected: string,
+  isExpected: (value: unknown) => boolean,
+): void {
+  if (res.kind === "ok" && !isExpected(res.value)) {
+    throw beginPanic(
+      `Result.prototype.${method}`,
+      res.value,
+      new UnwrapError(
+        `called \`Result::${method}()\` on an \`Ok\` value that is not ${expected}: ${debugFormat(
+          res.value,
+        )}`,
+        res.value,
+      ),
+    );
+  }
+}
+
+/**
+ * Panics if `res` is the variant that its type claims is impossible
+ * (i.e., whose type parameter is `never`).
+ */
+function checkNever(
+  method: string,
+  res: ResultImpl<unknown, unknown>,
+  impossible: "ok" | "err",
+): void {
+  if (res.kind !== impossible) {
+    return;
+  }
+  const payload = impossible === "ok" ? res.value : res.error;
+  const variant = impossible === "ok" ? "an `Ok`" : "an `Err`";
+  throw beginPanic(
+    `Result.prototype.${method}`,
+    payload,
+    new UnwrapError(
+      `called \`Result::${method}()\` on ${variant} value: ${debugFormat(
+        payload,
+      )}`,
+      payload,
+    ),
+  );
+}
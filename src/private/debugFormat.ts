@@ -0,0 +1,166 @@
+import DebugOptions from "../DebugOptions";
+import OptionImpl from "./OptionImpl";
+import ResultImpl from "./ResultImpl";
+
+/**
+ * Formats a value like Rust's `{:?}` (or `{:#?}` if `alternate` is set),
+ * e.g., `Some([1, 2])` or `Err(Error { message: "boom" })`.
+ *
+ * Strings are quoted, options and results are printed as tuple variants,
+ * and objects are printed as structs named after their constructor.
+ * Circular references are printed as `[Circular]`.
+ */
+export default function debugFormat(
+  value: unknown,
+  options: DebugOptions = {},
+): string {
+  return format(value, options.depth === undefined ? Infinity : options.depth, {
+    alternate: options.alternate === true,
+    ancestors: [],
+  });
+}
+
+interface Context {
+  alternate: boolean;
+  ancestors: unknown[];
+}
+
+const INDENT = "    ";
+
+function format(value: unknown, depth: number, context: Context): string {
+  switch (typeof value) {
+    case "string":
+      return JSON.stringify(value);
+    case "number":
+      return Object.is(value, -0) ? "-0" : String(value);
+    case "bigint":
+    case "boolean":
+    case "undefined":
+      return String(value);
+    case "symbol":
+      return value.toString();
+    case "function":
+      return value.name ? `[Function: ${value.name}]` : "[Function]";
+  }
+  if (value === null) {
+    return "null";
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+  }
+  if (context.ancestors.indexOf(value) !== -1) {
+    return "[Circular]";
+  }
+
+  context.ancestors.push(value);
+  const formatted = formatObject(value as object, depth, context);
+  context.ancestors.pop();
+  return formatted;
+}
+
+function formatObject(value: object, depth: number, context: Context): string {
+  const formatChild = (child: unknown) => format(child, depth - 1, context);
+
+  if (OptionImpl.isOption(value)) {
+    return value.match({
+      none: () => "None",
+      some: inner => group("Some(", ")", [formatChild(inner)], depth, context),
+    });
+  }
+  if (ResultImpl.isResult(value)) {
+    return value.match({
+      ok: inner => group("Ok(", ")", [formatChild(inner)], depth, context),
+      err: inner => group("Err(", ")", [formatChild(inner)], depth, context),
+    });
+  }
+  if (Array.isArray(value)) {
+    return group("[", "]", value.map(formatChild), depth, context);
+  }
+  if (value instanceof Map) {
+    const entries: string[] = [];
+    value.forEach((v, k) => {
+      entries.push(`${formatChild(k)}: ${formatChild(v)}`);
+    });
+    return group("{", "}", entries, depth, context);
+  }
+  if (value instanceof Set) {
+    const items: string[] = [];
+    value.forEach(v => {
+      items.push(formatChild(v));
+    });
+    return group("{", "}", items, depth, context);
+  }
+
+  const fields: { [key: string]: unknown } = value as {
+    [key: string]: unknown;
+  };
+  const keys = Object.keys(fields);
+  if (value instanceof Error && keys.indexOf("message") === -1) {
+    keys.unshift("message");
+  }
+  const entries = keys.map(
+    key => `${formatKey(key)}: ${formatChild(fields[key])}`,
+  );
+  const name = structName(value);
+  return group(
+    name === "" ? "{" : `${name} {`,
+    "}",
+    entries,
+    depth,
+    context,
+    " ",
+  );
+}
+
+/**
+ * Joins the already-formatted `items` between `open` and `close`,
+ * one per line in alternate mode.
+ */
+function group(
+  open: string,
+  close: string,
+  items: string[],
+  depth: number,
+  context: Context,
+  padding = "",
+): string {
+  if (items.length === 0) {
+    return open + close;
+  }
+  if (depth < 0) {
+    return open + padding + ".." + padding + close;
+  }
+  if (!context.alternate) {
+    return open + padding + items.join(", ") + padding + close;
+  }
+  return (
+    open +
+    "\n" +
+    items
+      .map(item => INDENT + item.replace(/\n/g, "\n" + INDENT) + ",\n")
+      .join("") +
+    close
+  );
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Returns the name of the class that `value` is an instance of,
+ * or `""` for plain objects.
+ */
+function structName(value: object): string {
+  if (value instanceof Error) {
+    return value.name;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype === null || prototype === Object.prototype) {
+    return "";
+  }
+  const constructor = prototype.constructor;
+  return "function" === typeof constructor && constructor.name
+    ? constructor.name
+    : "";
+}
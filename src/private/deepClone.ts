@@ -0,0 +1,124 @@
+import OptionImpl from "./OptionImpl";
+import ResultImpl from "./ResultImpl";
+
+/**
+ * Recursively copies arrays, `Map`s, `Set`s, `Date`s, `Error`s, and objects
+ * (preserving their prototypes, so `Option`s and `Result`s nested
+ * inside the value are cloned too).
+ * `ArrayBuffer`s, typed arrays, and `DataView`s are copied with `slice()`.
+ *
+ * Primitives, functions, and other built-in objects (e.g., `RegExp`s,
+ * `Promise`s, and `WeakMap`s) are returned as-is.
+ * Shared and circular references are preserved in the copy.
+ */
+export default function deepClone<T>(value: T): T {
+  return cloneWithMemo(value, new Map());
+}
+
+function cloneWithMemo<T>(value: T, memo: Map<unknown, unknown>): T {
+  if ("object" !== typeof value || value === null) {
+    return value;
+  }
+  if (memo.has(value)) {
+    return memo.get(value) as T;
+  }
+
+  const original: unknown = value;
+
+  if (original instanceof Date) {
+    return (new Date(original.getTime()) as unknown) as T;
+  }
+
+  if (Array.isArray(original)) {
+    const copy: unknown[] = [];
+    memo.set(original, copy);
+    original.forEach(item => {
+      copy.push(cloneWithMemo(item, memo));
+    });
+    return (copy as unknown) as T;
+  }
+
+  if (original instanceof Map) {
+    const copy = new Map();
+    memo.set(original, copy);
+    original.forEach((v, k) => {
+      copy.set(cloneWithMemo(k, memo), cloneWithMemo(v, memo));
+    });
+    return (copy as unknown) as T;
+  }
+
+  if (original instanceof Set) {
+    const copy = new Set();
+    memo.set(original, copy);
+    original.forEach(v => {
+      copy.add(cloneWithMemo(v, memo));
+    });
+    return (copy as unknown) as T;
+  }
+
+  if (original instanceof ArrayBuffer) {
+    const copy = original.slice(0);
+    memo.set(original, copy);
+    return (copy as unknown) as T;
+  }
+
+  if (original instanceof DataView) {
+    const copy = new DataView(
+      original.buffer.slice(
+        original.byteOffset,
+        original.byteOffset + original.byteLength,
+      ),
+    );
+    memo.set(original, copy);
+    return (copy as unknown) as T;
+  }
+
+  if (ArrayBuffer.isView(original)) {
+    // Every other view is a typed array.
+    const copy = (original as Uint8Array).slice();
+    memo.set(original, copy);
+    return (copy as unknown) as T;
+  }
+
+  if (original instanceof Error) {
+    // `message`, `stack`, and `cause` are not enumerable,
+    // so copy every own property with its descriptor.
+    const copy: Error = Object.create(Object.getPrototypeOf(original));
+    memo.set(original, copy);
+    Object.getOwnPropertyNames(original).forEach(key => {
+      const descriptor = Object.getOwnPropertyDescriptor(original, key)!;
+      if ("value" in descriptor) {
+        descriptor.value = cloneWithMemo(descriptor.value, memo);
+      }
+      Object.defineProperty(copy, key, descriptor);
+    });
+    return (copy as unknown) as T;
+  }
+
+  if (!isClonableObject(original)) {
+    return value;
+  }
+
+  const source = original as { [key: string]: unknown };
+  const copy: { [key: string]: unknown } = Object.create(
+    Object.getPrototypeOf(source),
+  );
+  memo.set(original, copy);
+  Object.keys(source).forEach(key => {
+    copy[key] = cloneWithMemo(source[key], memo);
+  });
+  return (copy as unknown) as T;
+}
+
+/**
+ * Returns `true` for plain objects, class instances, options, and results,
+ * whose enumerable properties are all there is to copy, as opposed to
+ * built-ins that keep their state in internal slots.
+ */
+function isClonableObject(value: unknown): boolean {
+  return (
+    Object.prototype.toString.call(value) === "[object Object]" ||
+    OptionImpl.isOption(value) ||
+    ResultImpl.isResult(value)
+  );
+}
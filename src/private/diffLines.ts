@@ -0,0 +1,45 @@
+/**
+ * Returns a line-by-line diff that turns `before` into `after`,
+ * with each line prefixed by `"- "` (removed), `"+ "` (added),
+ * or `"  "` (unchanged).
+ *
+ * Uses the longest common subsequence of lines,
+ * so the diff is minimal but quadratic in the number of lines.
+ */
+export default function diffLines(before: string[], after: string[]): string[] {
+  // `common[i][j]` is the length of the longest common subsequence
+  // of `before.slice(i)` and `after.slice(j)`.
+  const common: number[][] = [];
+  for (let i = before.length; i >= 0; i--) {
+    common[i] = [];
+    for (let j = after.length; j >= 0; j--) {
+      common[i][j] =
+        i === before.length || j === after.length
+          ? 0
+          : before[i] === after[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push("  " + before[i]);
+      i++;
+      j++;
+    } else if (
+      j === after.length ||
+      (i < before.length && common[i + 1][j] >= common[i][j + 1])
+    ) {
+      lines.push("- " + before[i]);
+      i++;
+    } else {
+      lines.push("+ " + after[j]);
+      j++;
+    }
+  }
+  return lines;
+}
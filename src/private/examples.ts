@@ -0,0 +1,142 @@
+import { ConformanceCheck } from "../conformance";
+import OptionImpl from "./OptionImpl";
+import ResultImpl from "./ResultImpl";
+import debugFormat from "./debugFormat";
+import { deepEquals } from "./structural";
+
+/**
+ * Thrown by the expectations below, so that `example()` can tell
+ * a failed expectation apart from an exception thrown by the
+ * implementation under test.
+ */
+class Failure {
+  constructor(readonly message: string) {}
+}
+
+/**
+ * Creates a check that runs `body` once and fails if
+ * one of its expectations fails or if it throws.
+ */
+export function example(name: string, body: () => void): ConformanceCheck {
+  return {
+    name,
+    run() {
+      try {
+        body();
+      } catch (thrown) {
+        return ResultImpl.err(
+          thrown instanceof Failure
+            ? `${name} failed: ${thrown.message}.`
+            : `${name} failed, throwing ${debugFormat(thrown)}.`,
+        );
+      }
+      return ResultImpl.ok(undefined);
+    },
+  };
+}
+
+/**
+ * Expects `actual` to structurally equal `expected`.
+ *
+ * Options and results are compared through `match()`, since those
+ * from the implementation under test may not be branded.
+ */
+export function expectEqual(actual: unknown, expected: unknown): void {
+  const canonicalActual = canonical(actual);
+  const canonicalExpected = canonical(expected);
+  if (!deepEquals(canonicalActual, canonicalExpected)) {
+    throw new Failure(
+      `expected ${debugFormat(canonicalExpected)}, but got ${debugFormat(
+        canonicalActual,
+      )}`,
+    );
+  }
+}
+
+/**
+ * Expects `actual` to be `expected` itself (i.e., `===`).
+ */
+export function expectSame(actual: unknown, expected: unknown): void {
+  if (actual !== expected) {
+    throw new Failure(
+      `expected the very same value as ${debugFormat(
+        canonical(expected),
+      )}, but got ${debugFormat(canonical(actual))}`,
+    );
+  }
+}
+
+/**
+ * Expects `thunk` to throw, and returns what it threw.
+ */
+export function expectThrows(thunk: () => unknown): unknown {
+  let returned: unknown;
+  try {
+    returned = thunk();
+  } catch (thrown) {
+    return thrown;
+  }
+  throw new Failure(
+    `expected an exception, but got ${debugFormat(canonical(returned))}`,
+  );
+}
+
+/**
+ * A function that records the arguments of every call.
+ */
+export interface Spy<A extends unknown[], R> {
+  (...args: A): R;
+  calls: A[];
+}
+
+export function spy<A extends unknown[], R>(
+  implementation: (...args: A) => R,
+): Spy<A, R> {
+  const calls: A[] = [];
+  const fn = ((...args: A): R => {
+    calls.push(args);
+    return implementation(...args);
+  }) as Spy<A, R>;
+  fn.calls = calls;
+  return fn;
+}
+
+/**
+ * Converts options and results (at any depth within arrays)
+ * into the default implementation.
+ */
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonical);
+  }
+  if (
+    "object" !== typeof value ||
+    value === null ||
+    "function" !== typeof (value as { match?: unknown }).match
+  ) {
+    return value;
+  }
+  const matchable = value as {
+    kind: unknown;
+    match(matcher: {
+      none: () => unknown;
+      some: (value: unknown) => unknown;
+      ok: (value: unknown) => unknown;
+      err: (error: unknown) => unknown;
+    }): unknown;
+  };
+  if (
+    matchable.kind !== "some" &&
+    matchable.kind !== "none" &&
+    matchable.kind !== "ok" &&
+    matchable.kind !== "err"
+  ) {
+    return value;
+  }
+  return matchable.match({
+    none: () => OptionImpl.none(),
+    some: inner => OptionImpl.some(canonical(inner)),
+    ok: inner => ResultImpl.ok(canonical(inner)),
+    err: error => ResultImpl.err(canonical(error)),
+  });
+}
@@ -0,0 +1,12 @@
+/**
+ * Converts `value` to a promise whose rejection is never reported as
+ * unhandled, even if nothing awaits it (e.g., because `and()` or `or()`
+ * short-circuited). Awaiting the promise still observes the rejection.
+ */
+export default function handledPromise<V>(
+  value: V | PromiseLike<V>,
+): Promise<V> {
+  const promise = Promise.resolve(value);
+  promise.catch(() => {});
+  return promise;
+}
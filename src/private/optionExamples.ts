@@ -0,0 +1,568 @@
+import { ConformanceCheck, OptionFactory } from "../conformance";
+import Option from "../Option";
+import ResultImpl from "./ResultImpl";
+import {
+  example,
+  expectEqual,
+  expectSame,
+  expectThrows,
+  spy,
+} from "./examples";
+
+/**
+ * The example-based part of `conformance.option()`:
+ * one check per method, on hand-picked inputs.
+ */
+export default function optionExamples(
+  option: OptionFactory,
+): ConformanceCheck[] {
+  const values = [42, "foo", {}, [], null, undefined];
+
+  return [
+    example("Option.prototype.isSome()", () => {
+      values.forEach(value => {
+        expectEqual(option.some(value).isSome(), true);
+      });
+      expectEqual(option.none().isSome(), false);
+    }),
+
+    example("Option.prototype.isNone()", () => {
+      values.forEach(value => {
+        expectEqual(option.some(value).isNone(), false);
+      });
+      expectEqual(option.none().isNone(), true);
+    }),
+
+    example("Option.prototype.kind and value expose the variant", () => {
+      const some = option.some("foo");
+      expectEqual(some.kind, "some");
+      expectEqual(some.isSome() && some.value, "foo");
+      expectEqual(option.none().kind, "none");
+    }),
+
+    example("Option.prototype.match() calls correct callback", () => {
+      const matcher1 = {
+        none: spy(() => -1),
+        some: spy((x: string) => x.toUpperCase()),
+      };
+      expectEqual(option.some("foo").match(matcher1), "FOO");
+      expectEqual(matcher1.some.calls, [["foo"]]);
+      expectEqual(matcher1.none.calls, []);
+
+      const matcher2 = {
+        none: spy(() => -1),
+        some: spy((x: string) => x.toUpperCase()),
+      };
+      expectEqual(option.none<string>().match(matcher2), -1);
+      expectEqual(matcher2.none.calls, [[]]);
+      expectEqual(matcher2.some.calls, []);
+    }),
+
+    example(
+      "Option.prototype.map() only calls callback if `this` is some",
+      () => {
+        const mapper = spy((x: number) => x * 3);
+        expectEqual(option.some(4).map(mapper), option.some(12));
+        expectEqual(mapper.calls, [[4]]);
+        expectEqual(option.none<number>().map(mapper), option.none());
+        expectEqual(mapper.calls.length, 1);
+      },
+    ),
+
+    example(
+      "Option.prototype.ifSome() only calls callback if `this` is some",
+      () => {
+        const callback = spy((_: string) => {});
+        option.some("foo").ifSome(callback);
+        option.none<string>().ifSome(callback);
+        expectEqual(callback.calls, [["foo"]]);
+      },
+    ),
+
+    example(
+      "Option.prototype.ifNone() only calls callback if `this` is none",
+      () => {
+        const callback = spy(() => {});
+        option.some("foo").ifNone(callback);
+        option.none().ifNone(callback);
+        expectEqual(callback.calls, [[]]);
+      },
+    ),
+
+    example("Option.prototype.unwrap()", () => {
+      expectEqual(option.some("foo").unwrap(), "foo");
+      const thrown = expectThrows(() => option.none().unwrap());
+      expectEqual(thrown instanceof Error, true);
+    }),
+
+    example("Option.prototype.expect()", () => {
+      expectEqual(option.some("foo").expect("Oh noes!"), "foo");
+
+      const thrown = expectThrows(() => option.none().expect("Oh noes!"));
+      expectEqual(thrown instanceof Error && thrown.message, "Oh noes!");
+
+      const providedError = new Error("Oh noes!");
+      expectSame(
+        expectThrows(() => option.none().expect(providedError)),
+        providedError,
+      );
+    }),
+
+    example("Option.prototype.unwrapOr()", () => {
+      expectEqual(option.some(42).unwrapOr(-19), 42);
+      expectEqual(option.none().unwrapOr(-19), -19);
+    }),
+
+    example(
+      "Option.prototype.unwrapOrElse() only calls the provided thunk if `this` is none",
+      () => {
+        const thunk = spy(() => -19);
+        expectEqual(option.some(42).unwrapOrElse(thunk), 42);
+        expectEqual(thunk.calls.length, 0);
+        expectEqual(option.none<number>().unwrapOrElse(thunk), -19);
+        expectEqual(thunk.calls.length, 1);
+      },
+    ),
+
+    example("Option.prototype.and()", () => {
+      expectEqual(option.some("foo").and(option.some(42)), option.some(42));
+      expectEqual(option.some("foo").and(option.none()), option.none());
+      expectEqual(option.none().and(option.some(42)), option.none());
+      expectEqual(option.none().and(option.none()), option.none());
+    }),
+
+    example(
+      "Option.prototype.andThen() only calls the provided flat mapper if `this` is some",
+      () => {
+        const firstChar = spy(
+          (s: string): Option<string> =>
+            s.length === 0 ? option.none() : option.some(s.charAt(0)),
+        );
+        expectEqual(option.none<string>().andThen(firstChar), option.none());
+        expectEqual(firstChar.calls, []);
+        expectEqual(option.some("foo").andThen(firstChar), option.some("f"));
+        expectEqual(option.some("").andThen(firstChar), option.none());
+        expectEqual(firstChar.calls, [["foo"], [""]]);
+      },
+    ),
+
+    example("Option.prototype.or()", () => {
+      expectEqual(
+        option.some<string | number>("foo").or(option.some(42)),
+        option.some("foo"),
+      );
+      expectEqual(option.some("foo").or(option.none()), option.some("foo"));
+      expectEqual(option.none().or(option.some(42)), option.some(42));
+      expectEqual(option.none().or(option.none()), option.none());
+    }),
+
+    example(
+      "Option.prototype.orElse() only calls the provided callback if `this` is none",
+      () => {
+        const getSome42 = spy(() => option.some<string | number>(42));
+        expectEqual(
+          option.some<string | number>("foo").orElse(getSome42),
+          option.some("foo"),
+        );
+        expectEqual(getSome42.calls, []);
+        expectEqual(
+          option.none<string | number>().orElse(getSome42),
+          option.some(42),
+        );
+        expectEqual(getSome42.calls, [[]]);
+
+        const getNone = spy(() => option.none<string>());
+        expectEqual(option.some("foo").orElse(getNone), option.some("foo"));
+        expectEqual(option.none<string>().orElse(getNone), option.none());
+        expectEqual(getNone.calls, [[]]);
+      },
+    ),
+
+    example(
+      "Option.prototype.filter() only calls the provided predicate if `this` is some",
+      () => {
+        const isEven = spy((n: number) => n % 2 === 0);
+        expectEqual(option.none<number>().filter(isEven), option.none());
+        expectEqual(isEven.calls, []);
+        expectEqual(option.some(1).filter(isEven), option.none());
+        expectEqual(option.some(2).filter(isEven), option.some(2));
+        expectEqual(isEven.calls, [[1], [2]]);
+      },
+    ),
+
+    example("Option.prototype.flatten()", () => {
+      expectEqual(
+        option.some(option.some("foo")).flatten(),
+        option.some("foo"),
+      );
+      expectEqual(option.some(option.none()).flatten(), option.none());
+      expectEqual(option.none<Option<string>>().flatten(), option.none());
+    }),
+
+    example("Option.prototype.array()", () => {
+      expectEqual(option.none().array(), []);
+      expectEqual(option.some("foo").array(), ["foo"]);
+    }),
+
+    example("Option.prototype.xor()", () => {
+      expectEqual(
+        option.some<string | number>("foo").xor(option.some(42)),
+        option.none(),
+      );
+      expectEqual(option.some("foo").xor(option.none()), option.some("foo"));
+      expectEqual(option.none().xor(option.some(42)), option.some(42));
+      expectEqual(option.none().xor(option.none()), option.none());
+    }),
+
+    example("Option.prototype.transpose()", () => {
+      expectEqual(option.none().transpose(), ResultImpl.ok(option.none()));
+      expectEqual(
+        option.some(ResultImpl.ok("foo")).transpose(),
+        ResultImpl.ok(option.some("foo")),
+      );
+      expectEqual(
+        option.some(ResultImpl.err("bar")).transpose(),
+        ResultImpl.err("bar"),
+      );
+    }),
+
+    example("Option.prototype.equalsSome()", () => {
+      expectEqual(option.some(42).equalsSome(42), true);
+      expectEqual(option.some("foo").equalsSome("foo"), true);
+      expectEqual(option.some(42).equalsSome(5), false);
+      expectEqual(option.some("foo").equalsSome("bar"), false);
+      expectEqual(option.some<string | number>("42").equalsSome(42), false);
+      expectEqual(option.some({}).equalsSome({}), false);
+      expectEqual(option.none<number>().equalsSome(42), false);
+    }),
+
+    example("Option.prototype.someSatisfies()", () => {
+      expectEqual(
+        option.some("foo").someSatisfies(v => v.length === 3),
+        true,
+      );
+      expectEqual(
+        option.some("foo").someSatisfies(v => v.length === 500),
+        false,
+      );
+      expectEqual(
+        option.none().someSatisfies(() => true),
+        false,
+      );
+    }),
+
+    example("Option.prototype.zip()", () => {
+      expectEqual(
+        option.some(1).zip(option.some("foo")),
+        option.some([1, "foo"]),
+      );
+      expectEqual(option.some(1).zip(option.none()), option.none());
+      expectEqual(option.none().zip(option.some("foo")), option.none());
+    }),
+
+    example(
+      "Option.prototype.zipWith() only calls callback if both options are some",
+      () => {
+        const zipper = spy((a: number, b: number) => a + b);
+        expectEqual(
+          option.some(1).zipWith(option.some(2), zipper),
+          option.some(3),
+        );
+        expectEqual(
+          option.some(1).zipWith(option.none<number>(), zipper),
+          option.none(),
+        );
+        expectEqual(
+          option.none<number>().zipWith(option.some(2), zipper),
+          option.none(),
+        );
+        expectEqual(zipper.calls, [[1, 2]]);
+      },
+    ),
+
+    example("Option.prototype.unzip()", () => {
+      expectEqual(
+        option
+          .some<[number, string]>([1, "foo"])
+          .unzip(),
+        [option.some(1), option.some("foo")],
+      );
+      expectEqual(option.none<[number, string]>().unzip(), [
+        option.none(),
+        option.none(),
+      ]);
+    }),
+
+    example("Option.prototype.mapOr()", () => {
+      expectEqual(
+        option.some(2).mapOr(0, n => n * 2),
+        4,
+      );
+      expectEqual(
+        option.none<number>().mapOr(0, n => n * 2),
+        0,
+      );
+    }),
+
+    example("Option.prototype.mapOrElse() only calls one callback", () => {
+      const defaultThunk = spy(() => 0);
+      const mapper = spy((n: number) => n * 2);
+      expectEqual(option.some(2).mapOrElse(defaultThunk, mapper), 4);
+      expectEqual(defaultThunk.calls, []);
+      expectEqual(option.none<number>().mapOrElse(defaultThunk, mapper), 0);
+      expectEqual(mapper.calls, [[2]]);
+    }),
+
+    example("Option.prototype.okOr()", () => {
+      expectEqual(option.some("foo").okOr("bar"), ResultImpl.ok("foo"));
+      expectEqual(option.none().okOr("bar"), ResultImpl.err("bar"));
+    }),
+
+    example(
+      "Option.prototype.okOrElse() only calls thunk if `this` is none",
+      () => {
+        const errorThunk = spy(() => "bar");
+        expectEqual(
+          option.some("foo").okOrElse(errorThunk),
+          ResultImpl.ok("foo"),
+        );
+        expectEqual(errorThunk.calls, []);
+        expectEqual(option.none().okOrElse(errorThunk), ResultImpl.err("bar"));
+      },
+    ),
+
+    example(
+      "Option.prototype.inspect() only calls callback if `this` is some",
+      () => {
+        const executor = spy((_: string) => {});
+        const some = option.some("foo");
+        const none = option.none<string>();
+        expectSame(some.inspect(executor), some);
+        expectSame(none.inspect(executor), none);
+        expectEqual(executor.calls, [["foo"]]);
+      },
+    ),
+
+    example("Option.prototype.isSomeAnd()", () => {
+      expectEqual(
+        option.some(2).isSomeAnd(n => n > 1),
+        true,
+      );
+      expectEqual(
+        option.some(0).isSomeAnd(n => n > 1),
+        false,
+      );
+      expectEqual(
+        option.none<number>().isSomeAnd(() => true),
+        false,
+      );
+    }),
+
+    example("Option.prototype.isNoneOr()", () => {
+      expectEqual(
+        option.some(2).isNoneOr(n => n > 1),
+        true,
+      );
+      expectEqual(
+        option.some(0).isNoneOr(n => n > 1),
+        false,
+      );
+      expectEqual(
+        option.none<number>().isNoneOr(() => false),
+        true,
+      );
+    }),
+
+    example("Option.prototype.contains()", () => {
+      expectEqual(option.some("foo").contains("foo"), true);
+      expectEqual(option.some("foo").contains("bar"), false);
+      expectEqual(option.none<string>().contains("foo"), false);
+      expectEqual(option.some({ id: 1 }).contains({ id: 1 }), false);
+      expectEqual(
+        option.some({ id: 1 }).contains({ id: 1 }, (a, b) => a.id === b.id),
+        true,
+      );
+    }),
+
+    example(
+      "Option.prototype.getOrInsertWith() only calls thunk if `this` is none",
+      () => {
+        const valueThunk = spy(() => "bar");
+        const some = option.some("foo");
+        const [someValue, someOption] = some.getOrInsertWith(valueThunk);
+        expectEqual(someValue, "foo");
+        expectSame(someOption, some);
+        expectEqual(valueThunk.calls, []);
+
+        expectEqual(option.none<string>().getOrInsertWith(valueThunk), [
+          "bar",
+          option.some("bar"),
+        ]);
+        expectEqual(valueThunk.calls, [[]]);
+      },
+    ),
+
+    example("Option.prototype.getOrInsertWith() does not change `this`", () => {
+      const none = option.none<number>();
+      const [, inserted] = none.map(n => n + 1).getOrInsertWith(() => 5);
+      expectEqual(inserted, option.some(5));
+      expectEqual(none, option.none());
+    }),
+
+    example(
+      "Option.prototype.andLazy() only calls thunk if `this` is some",
+      () => {
+        const otherThunk = spy(() => option.some("bar"));
+        expectEqual(option.some("foo").andLazy(otherThunk), option.some("bar"));
+        expectEqual(option.none().andLazy(otherThunk), option.none());
+        expectEqual(otherThunk.calls, [[]]);
+      },
+    ),
+
+    example("Option.prototype.equals()", () => {
+      expectEqual(option.none().equals(option.none()), true);
+      expectEqual(option.some(1).equals(option.some(1)), true);
+      expectEqual(option.some(1).equals(option.some(2)), false);
+      expectEqual(option.some(1).equals(option.none()), false);
+      expectEqual(option.none<number>().equals(option.some(1)), false);
+    }),
+
+    example(
+      "Option.prototype.equals() compares wrapped values deeply by default",
+      () => {
+        expectEqual(
+          option
+            .some({ a: [1, option.some("x")], b: ResultImpl.ok(NaN) })
+            .equals(
+              option.some({ b: ResultImpl.ok(NaN), a: [1, option.some("x")] }),
+            ),
+          true,
+        );
+        expectEqual(
+          option.some({ a: [1, 2] }).equals(option.some({ a: [1, 2, 3] })),
+          false,
+        );
+        expectEqual(
+          option
+            .some<{ a?: number; b?: number }>({ a: 1 })
+            .equals(option.some({ b: 1 })),
+          false,
+        );
+      },
+    ),
+
+    example("Option.prototype.equals() uses the provided equality", () => {
+      const sameLength = (a: string, b: string) => a.length === b.length;
+      expectEqual(
+        option.some("foo").equals(option.some("bar"), sameLength),
+        true,
+      );
+      expectEqual(
+        option.some("foo").equals(option.some("ba"), sameLength),
+        false,
+      );
+    }),
+
+    example("Option.prototype.compare() orders none before some", () => {
+      expectEqual(option.none().compare(option.none()), 0);
+      expectEqual(option.none<number>().compare(option.some(1)) < 0, true);
+      expectEqual(option.some(1).compare(option.none()) > 0, true);
+      expectEqual(option.some(1).compare(option.some(2)) < 0, true);
+      expectEqual(option.some("b").compare(option.some("a")) > 0, true);
+      expectEqual(option.some([1, 2]).compare(option.some([1, 2])), 0);
+      expectEqual(
+        option.some([1, 2]).compare(option.some([1, 2, 0])) < 0,
+        true,
+      );
+    }),
+
+    example("Option.prototype.compare() uses the provided comparator", () => {
+      const byLength = (a: string, b: string) => a.length - b.length;
+      expectEqual(
+        option.some("aaa").compare(option.some("b"), byLength) > 0,
+        true,
+      );
+    }),
+
+    example("Option.prototype.hash() is consistent with equals()", () => {
+      expectEqual(
+        option.some({ a: 1, b: [2] }).hash(),
+        option.some({ b: [2], a: 1 }).hash(),
+      );
+      expectEqual(option.none().hash(), option.none().hash());
+      expectEqual(option.some(1).hash() === option.some(2).hash(), false);
+      expectEqual(
+        option.some(undefined).hash() === option.none().hash(),
+        false,
+      );
+      expectEqual(
+        option.some(option.none()).hash() === option.none().hash(),
+        false,
+      );
+    }),
+
+    example("Option.prototype.hash() uses the provided hash function", () => {
+      const byLength = (s: string) => s.length;
+      expectEqual(
+        option.some("foo").hash(byLength),
+        option.some("bar").hash(byLength),
+      );
+    }),
+
+    example("Option.prototype.toString()", () => {
+      expectEqual(option.none().toString(), "None");
+      expectEqual(option.some(42).toString(), "Some(42)");
+      expectEqual(option.some("foo").toString(), 'Some("foo")');
+      expectEqual(String(option.some(option.none())), "Some(None)");
+      expectEqual(String(option.some(undefined)), "Some(undefined)");
+    }),
+
+    example("Option.prototype.toJSON()", () => {
+      expectEqual(option.some("foo").toJSON(), "foo");
+      expectEqual(option.none().toJSON(), null);
+      expectEqual(JSON.stringify([option.some(1), option.none()]), "[1,null]");
+    }),
+
+    example("Option.prototype.iter()", () => {
+      expectEqual([...option.some("foo").iter()], ["foo"]);
+      expectEqual([...option.none().iter()], []);
+      expectEqual(
+        option
+          .some("foo")
+          .iter()
+          .next(),
+        option.some("foo"),
+      );
+    }),
+
+    example(
+      "Option.prototype.bind() yields a tagged step, then returns the wrapped value",
+      () => {
+        const someIterator = option.some("foo").bind();
+        expectEqual(someIterator.next(), {
+          done: false,
+          value: ["some", "foo"],
+        });
+        expectEqual(someIterator.next(), { done: true, value: "foo" });
+        expectEqual(
+          option
+            .none()
+            .bind()
+            .next(),
+          {
+            done: false,
+            value: ["none"],
+          },
+        );
+      },
+    ),
+
+    example(
+      "Option.prototype[Symbol.iterator]() supports for...of and spread",
+      () => {
+        expectEqual([...option.some("foo")], ["foo"]);
+        expectEqual([...option.none()], []);
+      },
+    ),
+  ];
+}
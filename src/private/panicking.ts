@@ -0,0 +1,87 @@
+import { PanicHook, PanicInfo } from "../panic";
+import Result from "../Result";
+import ResultImpl from "./ResultImpl";
+import debugFormat from "./debugFormat";
+
+let hook: PanicHook | undefined;
+
+/**
+ * The panics of each active `catchUnwind()` call (innermost last),
+ * keyed by the thrown object so that they can be told apart from
+ * other exceptions. A call's frame is discarded when it returns.
+ */
+const frames: WeakMap<object, PanicInfo>[] = [];
+
+export function getHook(): PanicHook {
+  return hook === undefined ? defaultHook : hook;
+}
+
+export function replaceHook(newHook: PanicHook | undefined): void {
+  hook = newHook;
+}
+
+/**
+ * Reports a panic to the panic hook, then returns `thrown`
+ * so that the caller can throw it:
+ *
+ * ```ts
+ * throw beginPanic("Option.prototype.unwrap", undefined, error);
+ * ```
+ */
+export function beginPanic(
+  method: string,
+  payload: unknown,
+  thrown: unknown,
+): unknown {
+  const info: PanicInfo = {
+    message: thrown instanceof Error ? thrown.message : describe(thrown),
+    payload,
+    method,
+    stack:
+      thrown instanceof Error && thrown.stack !== undefined
+        ? thrown.stack
+        : new Error().stack,
+    thrown,
+  };
+  if (frames.length > 0 && isObject(thrown)) {
+    frames[frames.length - 1].set(thrown, info);
+  }
+  getHook()(info);
+  return thrown;
+}
+
+/**
+ * Calls `fn`, returning `err(info)` if it throws an object
+ * that a panic within this call threw, and rethrowing anything else.
+ *
+ * Primitives (which only `unwrapOrThrowErr()` and `unwrapErrOrThrowOk()`
+ * can throw) are always rethrown, since a panic that throws `"boom"`
+ * cannot be told apart from a later `throw "boom"`.
+ */
+export function catchPanic<T>(fn: () => T): Result<T, PanicInfo> {
+  const panics = new WeakMap<object, PanicInfo>();
+  frames.push(panics);
+  try {
+    return ResultImpl.ok(fn());
+  } catch (thrown) {
+    const info = isObject(thrown) ? panics.get(thrown) : undefined;
+    if (info === undefined) {
+      throw thrown;
+    }
+    return ResultImpl.err(info);
+  } finally {
+    frames.pop();
+  }
+}
+
+function defaultHook(): void {}
+
+function describe(thrown: unknown): string {
+  return "string" === typeof thrown ? thrown : debugFormat(thrown);
+}
+
+function isObject(value: unknown): value is object {
+  return (
+    ("object" === typeof value && value !== null) || "function" === typeof value
+  );
+}
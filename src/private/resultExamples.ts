@@ -0,0 +1,749 @@
+import { ConformanceCheck, ResultFactory } from "../conformance";
+import ContextError from "../ContextError";
+import Result from "../Result";
+import OptionImpl from "./OptionImpl";
+import {
+  example,
+  expectEqual,
+  expectSame,
+  expectThrows,
+  spy,
+} from "./examples";
+
+/**
+ * The example-based part of `conformance.result()`:
+ * one check per method, on hand-picked inputs.
+ */
+export default function resultExamples(
+  result: ResultFactory,
+): ConformanceCheck[] {
+  const values = [42, "foo", {}, [], null, undefined];
+
+  return [
+    example("Result.prototype.isOk()", () => {
+      values.forEach(value => {
+        expectEqual(result.ok(value).isOk(), true);
+        expectEqual(result.err(value).isOk(), false);
+      });
+    }),
+
+    example("Result.prototype.isErr()", () => {
+      values.forEach(value => {
+        expectEqual(result.ok(value).isErr(), false);
+        expectEqual(result.err(value).isErr(), true);
+      });
+    }),
+
+    example("Result.prototype.kind, value and error expose the variant", () => {
+      const ok = result.ok("foo");
+      expectEqual(ok.kind, "ok");
+      expectEqual(ok.isOk() && ok.value, "foo");
+      const err = result.err("bar");
+      expectEqual(err.kind, "err");
+      expectEqual(err.isErr() && err.error, "bar");
+    }),
+
+    example("Result.prototype.match() calls correct callback", () => {
+      const matcher1 = {
+        err: spy((error: number) => -error),
+        ok: spy((x: string) => x.toUpperCase()),
+      };
+      expectEqual(result.ok<string, number>("foo").match(matcher1), "FOO");
+      expectEqual(matcher1.ok.calls, [["foo"]]);
+      expectEqual(matcher1.err.calls, []);
+
+      const matcher2 = {
+        err: spy((error: number) => -error),
+        ok: spy((x: string) => x.toUpperCase()),
+      };
+      expectEqual(result.err<number, string>(9).match(matcher2), -9);
+      expectEqual(matcher2.err.calls, [[9]]);
+      expectEqual(matcher2.ok.calls, []);
+    }),
+
+    example("Result.prototype.ok()", () => {
+      expectEqual(result.ok(42).ok(), OptionImpl.some(42));
+      expectEqual(result.err("bar").ok(), OptionImpl.none());
+    }),
+
+    example("Result.prototype.err()", () => {
+      expectEqual(result.ok("foo").err(), OptionImpl.none());
+      expectEqual(result.err("bar").err(), OptionImpl.some("bar"));
+    }),
+
+    example(
+      "Result.prototype.safeUnwrap() and Result.prototype.safeUnwrapErr()",
+      () => {
+        const ok: Result<string, never> = result.ok("foo");
+        expectEqual(ok.safeUnwrap(), "foo");
+        const err: Result<never, string> = result.err("bar");
+        expectEqual(err.safeUnwrapErr(), "bar");
+      },
+    ),
+
+    example(
+      "Result.prototype.map() only calls callback if `this` is ok",
+      () => {
+        const mapper = spy((x: number) => x * 3);
+        expectEqual(result.ok<number, string>(4).map(mapper), result.ok(12));
+        expectEqual(mapper.calls, [[4]]);
+        expectEqual(
+          result.err<string, number>("bar").map(mapper),
+          result.err("bar"),
+        );
+        expectEqual(mapper.calls.length, 1);
+      },
+    ),
+
+    example(
+      "Result.prototype.mapErr() only calls callback if `this` is err",
+      () => {
+        const mapper = spy((x: number) => x * 3);
+        expectEqual(
+          result.ok<string, number>("foo").mapErr(mapper),
+          result.ok("foo"),
+        );
+        expectEqual(mapper.calls, []);
+        expectEqual(
+          result.err<number, string>(4).mapErr(mapper),
+          result.err(12),
+        );
+        expectEqual(mapper.calls, [[4]]);
+      },
+    ),
+
+    example(
+      "Result.prototype.ifOk() only calls callback if `this` is ok",
+      () => {
+        const callback = spy((_: string) => {});
+        result.ok<string, string>("foo").ifOk(callback);
+        result.err<string, string>("bar").ifOk(callback);
+        expectEqual(callback.calls, [["foo"]]);
+      },
+    ),
+
+    example(
+      "Result.prototype.ifErr() only calls callback if `this` is err",
+      () => {
+        const callback = spy((_: string) => {});
+        result.ok<string, string>("foo").ifErr(callback);
+        result.err<string, string>("bar").ifErr(callback);
+        expectEqual(callback.calls, [["bar"]]);
+      },
+    ),
+
+    example("Result.prototype.unwrap()", () => {
+      expectEqual(result.ok("foo").unwrap(), "foo");
+      const thrown = expectThrows(() => result.err("bar").unwrap());
+      expectEqual(thrown instanceof Error, true);
+    }),
+
+    example("Result.prototype.unwrapErr()", () => {
+      expectEqual(result.err("bar").unwrapErr(), "bar");
+      const thrown = expectThrows(() => result.ok("foo").unwrapErr());
+      expectEqual(thrown instanceof Error, true);
+    }),
+
+    example("Result.prototype.unwrapOrThrowErr()", () => {
+      const ok: Result<string, Error> = result.ok("foo");
+      expectEqual(ok.unwrapOrThrowErr(), "foo");
+      const error = new Error("foo");
+      const err: Result<string, Error> = result.err(error);
+      expectSame(
+        expectThrows(() => err.unwrapOrThrowErr()),
+        error,
+      );
+    }),
+
+    example("Result.prototype.unwrapErrOrThrowOk()", () => {
+      const err: Result<Error, string> = result.err("bar");
+      expectEqual(err.unwrapErrOrThrowOk(), "bar");
+      const error = new Error("foo");
+      const ok: Result<Error, string> = result.ok(error);
+      expectSame(
+        expectThrows(() => ok.unwrapErrOrThrowOk()),
+        error,
+      );
+    }),
+
+    example("Result.prototype.expect()", () => {
+      expectEqual(result.ok("foo").expect("Oh noes!"), "foo");
+
+      const thrown = expectThrows(() => result.err("bar").expect("Oh noes!"));
+      expectEqual(thrown instanceof Error && thrown.message, "Oh noes!");
+
+      const providedError = new Error("Oh noes!");
+      expectSame(
+        expectThrows(() => result.err("bar").expect(providedError)),
+        providedError,
+      );
+    }),
+
+    example("Result.prototype.expectErr()", () => {
+      expectEqual(result.err("bar").expectErr("Oh noes!"), "bar");
+
+      const thrown = expectThrows(() => result.ok("foo").expectErr("Oh noes!"));
+      expectEqual(thrown instanceof Error && thrown.message, "Oh noes!");
+
+      const providedError = new Error("Oh noes!");
+      expectSame(
+        expectThrows(() => result.ok("foo").expectErr(providedError)),
+        providedError,
+      );
+    }),
+
+    example("Result.prototype.unwrapOr()", () => {
+      expectEqual(result.ok(42).unwrapOr(-19), 42);
+      expectEqual(result.err("bar").unwrapOr(-19), -19);
+    }),
+
+    example(
+      "Result.prototype.unwrapOrElse() only calls the provided thunk if `this` is err",
+      () => {
+        const thunk = spy((_: string) => -19);
+        expectEqual(result.ok<number, string>(42).unwrapOrElse(thunk), 42);
+        expectEqual(thunk.calls, []);
+        expectEqual(result.err<string, number>("bar").unwrapOrElse(thunk), -19);
+        expectEqual(thunk.calls, [["bar"]]);
+      },
+    ),
+
+    example("Result.prototype.and()", () => {
+      expectEqual(result.ok("foo").and(result.ok(42)), result.ok(42));
+      expectEqual(result.ok("foo").and(result.err("bar")), result.err("bar"));
+      expectEqual(result.err("bar").and(result.ok(42)), result.err("bar"));
+      expectEqual(result.err("bar").and(result.err("baz")), result.err("bar"));
+    }),
+
+    example(
+      "Result.prototype.andThen() only calls the provided flat mapper if `this` is ok",
+      () => {
+        const firstChar = spy(
+          (s: string): Result<string, string> =>
+            s.length === 0
+              ? result.err("Empty string")
+              : result.ok(s.charAt(0)),
+        );
+        expectEqual(
+          result.err<string, string>("No string").andThen(firstChar),
+          result.err("No string"),
+        );
+        expectEqual(firstChar.calls, []);
+        expectEqual(result.ok("foo").andThen(firstChar), result.ok("f"));
+        expectEqual(
+          result.ok("").andThen(firstChar),
+          result.err("Empty string"),
+        );
+        expectEqual(firstChar.calls, [["foo"], [""]]);
+      },
+    ),
+
+    example("Result.prototype.or()", () => {
+      expectEqual(result.ok("foo").or(result.ok(42)), result.ok("foo"));
+      expectEqual(result.ok("foo").or(result.err("bar")), result.ok("foo"));
+      expectEqual(result.err("bar").or(result.ok(42)), result.ok(42));
+      expectEqual(result.err("bar").or(result.err("baz")), result.err("baz"));
+    }),
+
+    example(
+      "Result.prototype.orElse() only calls the provided callback if `this` is err",
+      () => {
+        const getOk = spy((_: string) =>
+          result.ok<string | number, string>(42),
+        );
+        expectEqual(
+          result.ok<string | number, string>("foo").orElse(getOk),
+          result.ok("foo"),
+        );
+        expectEqual(getOk.calls, []);
+        expectEqual(
+          result.err<string, string | number>("bar").orElse(getOk),
+          result.ok(42),
+        );
+        expectEqual(getOk.calls, [["bar"]]);
+
+        const getErr = spy((error: string) =>
+          result.err<string, string>(error),
+        );
+        expectEqual(
+          result.ok<string, string>("foo").orElse(getErr),
+          result.ok("foo"),
+        );
+        expectEqual(
+          result.err<string, string>("bar").orElse(getErr),
+          result.err("bar"),
+        );
+        expectEqual(getErr.calls, [["bar"]]);
+      },
+    ),
+
+    example("Result.prototype.array()", () => {
+      expectEqual(result.err("bar").array(), []);
+      expectEqual(result.ok("foo").array(), ["foo"]);
+    }),
+
+    example("Result.prototype.transpose()", () => {
+      expectEqual(result.ok(OptionImpl.none()).transpose(), OptionImpl.none());
+      expectEqual(
+        result.ok(OptionImpl.some("foo")).transpose(),
+        OptionImpl.some(result.ok("foo")),
+      );
+      expectEqual(
+        result.err("bar").transpose(),
+        OptionImpl.some(result.err("bar")),
+      );
+    }),
+
+    example("Result.prototype.flatten()", () => {
+      expectEqual(result.ok(result.ok("foo")).flatten(), result.ok("foo"));
+      expectEqual(result.ok(result.err("bar")).flatten(), result.err("bar"));
+      expectEqual(
+        result.err<string, Result<string, string>>("baz").flatten(),
+        result.err("baz"),
+      );
+    }),
+
+    example("Result.prototype.okSatisfies()", () => {
+      expectEqual(
+        result.ok(9).okSatisfies(x => x > 0),
+        true,
+      );
+      expectEqual(
+        result.ok(-9).okSatisfies(x => x > 0),
+        false,
+      );
+      expectEqual(
+        result.err<string, number>("bar").okSatisfies(x => x > 0),
+        false,
+      );
+    }),
+
+    example("Result.prototype.errSatisfies()", () => {
+      expectEqual(
+        result.err(9).errSatisfies(x => x > 0),
+        true,
+      );
+      expectEqual(
+        result.err(-9).errSatisfies(x => x > 0),
+        false,
+      );
+      expectEqual(
+        result.ok<string, number>("bar").errSatisfies(x => x > 0),
+        false,
+      );
+    }),
+
+    example("Result.prototype.reverse()", () => {
+      expectEqual(result.ok("foo").reverse(), result.err("foo"));
+      expectEqual(result.err("bar").reverse(), result.ok("bar"));
+    }),
+
+    example("Result.prototype.mapOr()", () => {
+      expectEqual(
+        result.ok<number, string>(2).mapOr(0, n => n * 2),
+        4,
+      );
+      expectEqual(
+        result.err<string, number>("foo").mapOr(0, n => n * 2),
+        0,
+      );
+    }),
+
+    example("Result.prototype.mapOrElse() only calls one callback", () => {
+      const defaultThunk = spy((e: string) => e.length);
+      const mapper = spy((n: number) => n * 2);
+      expectEqual(
+        result.ok<number, string>(2).mapOrElse(defaultThunk, mapper),
+        4,
+      );
+      expectEqual(defaultThunk.calls, []);
+      expectEqual(
+        result.err<string, number>("foo").mapOrElse(defaultThunk, mapper),
+        3,
+      );
+      expectEqual(mapper.calls, [[2]]);
+    }),
+
+    example(
+      "Result.prototype.inspect() only calls callback if `this` is ok",
+      () => {
+        const executor = spy((_: string) => {});
+        const ok = result.ok<string, string>("foo");
+        const err = result.err<string, string>("bar");
+        expectSame(ok.inspect(executor), ok);
+        expectSame(err.inspect(executor), err);
+        expectEqual(executor.calls, [["foo"]]);
+      },
+    ),
+
+    example(
+      "Result.prototype.inspectErr() only calls callback if `this` is err",
+      () => {
+        const executor = spy((_: string) => {});
+        const ok = result.ok<string, string>("foo");
+        const err = result.err<string, string>("bar");
+        expectSame(ok.inspectErr(executor), ok);
+        expectSame(err.inspectErr(executor), err);
+        expectEqual(executor.calls, [["bar"]]);
+      },
+    ),
+
+    example("Result.prototype.isOkAnd()", () => {
+      expectEqual(
+        result.ok(2).isOkAnd(n => n > 1),
+        true,
+      );
+      expectEqual(
+        result.ok(0).isOkAnd(n => n > 1),
+        false,
+      );
+      expectEqual(
+        result.err("foo").isOkAnd(() => true),
+        false,
+      );
+    }),
+
+    example("Result.prototype.isErrAnd()", () => {
+      expectEqual(
+        result.err(2).isErrAnd(n => n > 1),
+        true,
+      );
+      expectEqual(
+        result.err(0).isErrAnd(n => n > 1),
+        false,
+      );
+      expectEqual(
+        result.ok("foo").isErrAnd(() => true),
+        false,
+      );
+    }),
+
+    example("Result.prototype.intoOk() and Result.prototype.intoErr()", () => {
+      expectEqual(result.ok("foo").intoOk(), "foo");
+      expectEqual(result.err("bar").intoErr(), "bar");
+    }),
+
+    example(
+      "Result.prototype.andThenErr() only calls callback if `this` is err",
+      () => {
+        const flatMapper = spy((e: string) =>
+          result.ok<number, string>(e.length),
+        );
+        expectEqual(
+          result.ok<number, string>(42).andThenErr(flatMapper),
+          result.ok(42),
+        );
+        expectEqual(flatMapper.calls, []);
+        expectEqual(
+          result.err<string, number>("foo").andThenErr(flatMapper),
+          result.ok(3),
+        );
+        expectEqual(
+          result.err("foo").andThenErr(e => result.err(e.toUpperCase())),
+          result.err("FOO"),
+        );
+      },
+    ),
+
+    example("Result.prototype.cloned() deeply copies the inner value", () => {
+      const value = {
+        list: [1, { nested: true }],
+        map: new Map([["key", { id: 1 }]]),
+        set: new Set([1, 2]),
+        date: new Date(0),
+        opt: OptionImpl.some({ id: 2 }),
+      };
+      const copiedValue = result
+        .ok(value)
+        .cloned()
+        .unwrap();
+      expectEqual(copiedValue.list, value.list);
+      expectEqual(Array.from(copiedValue.map), Array.from(value.map));
+      expectEqual(Array.from(copiedValue.set), Array.from(value.set));
+      expectEqual(copiedValue.date, value.date);
+      expectEqual(copiedValue.opt, value.opt);
+      expectEqual(copiedValue === value, false);
+      expectEqual(copiedValue.list[1] === value.list[1], false);
+      expectEqual(copiedValue.map.get("key") === value.map.get("key"), false);
+      expectEqual(copiedValue.set === value.set, false);
+      expectEqual(copiedValue.date === value.date, false);
+      expectEqual(copiedValue.opt.unwrap() === value.opt.unwrap(), false);
+
+      const error = { reason: "foo" };
+      const errCopy = result.err(error).cloned();
+      expectEqual(errCopy, result.err(error));
+      expectEqual(errCopy.unwrapErr() === error, false);
+    }),
+
+    example("Result.prototype.cloned() preserves circular references", () => {
+      const value: { self?: unknown } = {};
+      value.self = value;
+      const copiedValue = result
+        .ok(value)
+        .cloned()
+        .unwrap();
+      expectEqual(copiedValue === value, false);
+      expectSame(copiedValue.self, copiedValue);
+    }),
+
+    example(
+      "Result.prototype.cloned() copies errors with their non-enumerable properties",
+      () => {
+        const cause = new Error("cause");
+        const error = new RangeError("boom");
+        Object.defineProperty(error, "cause", {
+          value: cause,
+          writable: true,
+          configurable: true,
+        });
+        const copiedError = result
+          .err(error)
+          .cloned()
+          .unwrapErr();
+        const copiedCause = (copiedError as { cause?: unknown }).cause;
+        expectEqual(copiedError === error, false);
+        expectEqual(copiedError instanceof RangeError, true);
+        expectEqual(copiedError.name, "RangeError");
+        expectEqual(copiedError.message, "boom");
+        expectEqual(copiedError.stack, error.stack);
+        expectEqual(copiedCause === cause, false);
+        expectEqual(
+          copiedCause instanceof Error && copiedCause.message,
+          "cause",
+        );
+      },
+    ),
+
+    example(
+      "Result.prototype.cloned() copies typed arrays and ArrayBuffers",
+      () => {
+        const bytes = new Uint8Array([1, 2]);
+        const copiedBytes = result
+          .ok(bytes)
+          .cloned()
+          .unwrap();
+        expectEqual(copiedBytes instanceof Uint8Array, true);
+        expectEqual(copiedBytes === bytes, false);
+        expectEqual(Array.from(copiedBytes), [1, 2]);
+
+        const buffer = new Float64Array([0.5]).buffer;
+        const copiedBuffer = result
+          .ok(buffer)
+          .cloned()
+          .unwrap();
+        expectEqual(copiedBuffer === buffer, false);
+        expectEqual(Array.from(new Float64Array(copiedBuffer)), [0.5]);
+
+        const view = new DataView(new ArrayBuffer(4), 1, 2);
+        view.setUint8(0, 7);
+        const copiedView = result
+          .ok(view)
+          .cloned()
+          .unwrap();
+        expectEqual(copiedView === view, false);
+        expectEqual(copiedView.byteLength, 2);
+        expectEqual(copiedView.getUint8(0), 7);
+      },
+    ),
+
+    example("Result.prototype.cloned() reuses other built-in objects", () => {
+      const regExp = /foo/g;
+      const promise = Promise.resolve(1);
+      const weakMap = new WeakMap();
+      const copiedValue = result
+        .ok({ regExp, promise, weakMap })
+        .cloned()
+        .unwrap();
+      expectSame(copiedValue.regExp, regExp);
+      expectSame(copiedValue.promise, promise);
+      expectSame(copiedValue.weakMap, weakMap);
+    }),
+
+    example(
+      "Result.prototype.unwrapOrDefault() only calls factory if `this` is err",
+      () => {
+        const defaultFactory = spy(() => 0);
+        expectEqual(
+          result.ok<number, string>(42).unwrapOrDefault(defaultFactory),
+          42,
+        );
+        expectEqual(defaultFactory.calls, []);
+        expectEqual(
+          result.err<string, number>("foo").unwrapOrDefault(defaultFactory),
+          0,
+        );
+      },
+    ),
+
+    example("Result.prototype.context()", () => {
+      expectEqual(result.ok(42).context("Failed to parse"), result.ok(42));
+
+      const error = result
+        .err("bad digit")
+        .context("Failed to parse")
+        .unwrapErr();
+      expectEqual(error instanceof ContextError, true);
+      expectEqual(error.context, "Failed to parse");
+      expectEqual(error.cause, "bad digit");
+    }),
+
+    example(
+      "Result.prototype.withContext() only calls the thunk if `this` is err",
+      () => {
+        const contextThunk = spy((error: string) => `Failed with ${error}`);
+        expectEqual(
+          result.ok<number, string>(42).withContext(contextThunk),
+          result.ok(42),
+        );
+        expectEqual(contextThunk.calls, []);
+
+        const error = result
+          .err<string, number>("foo")
+          .withContext(contextThunk)
+          .unwrapErr();
+        expectEqual(contextThunk.calls, [["foo"]]);
+        expectEqual(error.context, "Failed with foo");
+        expectEqual(error.cause, "foo");
+      },
+    ),
+
+    example("Result.prototype.equals()", () => {
+      expectEqual(result.ok(1).equals(result.ok(1)), true);
+      expectEqual(result.err("foo").equals(result.err("foo")), true);
+      expectEqual(result.ok(1).equals(result.ok(2)), false);
+      expectEqual(result.ok<number, number>(1).equals(result.err(1)), false);
+      expectEqual(result.err<number, number>(1).equals(result.ok(1)), false);
+    }),
+
+    example(
+      "Result.prototype.equals() compares inner values deeply by default",
+      () => {
+        expectEqual(
+          result
+            .ok({ list: [OptionImpl.some(1)], date: new Date(0) })
+            .equals(
+              result.ok({ list: [OptionImpl.some(1)], date: new Date(0) }),
+            ),
+          true,
+        );
+        expectEqual(
+          result.err({ reason: "foo" }).equals(result.err({ reason: "bar" })),
+          false,
+        );
+      },
+    ),
+
+    example("Result.prototype.equals() uses the provided equalities", () => {
+      const sameLength = (a: string, b: string) => a.length === b.length;
+      expectEqual(
+        result.ok("foo").equals(result.ok("bar"), sameLength, sameLength),
+        true,
+      );
+      expectEqual(
+        result.err("foo").equals(result.err("ba"), sameLength, sameLength),
+        false,
+      );
+    }),
+
+    example("Result.prototype.compare() orders ok before err", () => {
+      expectEqual(
+        result.ok<number, number>(2).compare(result.err(1)) < 0,
+        true,
+      );
+      expectEqual(
+        result.err<number, number>(1).compare(result.ok(2)) > 0,
+        true,
+      );
+      expectEqual(result.ok(1).compare(result.ok(2)) < 0, true);
+      expectEqual(result.err("b").compare(result.err("a")) > 0, true);
+      expectEqual(result.err({ a: 1 }).compare(result.err({ a: 1 })), 0);
+    }),
+
+    example("Result.prototype.compare() uses the provided comparators", () => {
+      const byLength = (a: string, b: string) => a.length - b.length;
+      expectEqual(
+        result.ok("aaa").compare(result.ok("b"), byLength, byLength) > 0,
+        true,
+      );
+      expectEqual(
+        result.err("a").compare(result.err("bb"), byLength, byLength) < 0,
+        true,
+      );
+    }),
+
+    example("Result.prototype.hash() is consistent with equals()", () => {
+      expectEqual(
+        result.ok({ a: [1], b: OptionImpl.none() }).hash(),
+        result.ok({ b: OptionImpl.none(), a: [1] }).hash(),
+      );
+      expectEqual(result.ok(1).hash() === result.err(1).hash(), false);
+      expectEqual(result.err("foo").hash() === result.err("bar").hash(), false);
+    }),
+
+    example("Result.prototype.hash() uses the provided hash functions", () => {
+      const byLength = (s: string) => s.length;
+      expectEqual(
+        result.err("foo").hash(byLength, byLength),
+        result.err("bar").hash(byLength, byLength),
+      );
+    }),
+
+    example("Result.prototype.toString()", () => {
+      expectEqual(result.ok(42).toString(), "Ok(42)");
+      expectEqual(result.err("boom").toString(), 'Err("boom")');
+      expectEqual(
+        String(result.ok(OptionImpl.some([BigInt(1)]))),
+        "Ok(Some([1]))",
+      );
+      expectEqual(
+        result.err(new Error("boom")).toString(),
+        'Err(Error { message: "boom" })',
+      );
+    }),
+
+    example("Result.prototype.toJSON()", () => {
+      expectEqual(result.ok("foo").toJSON(), { Ok: "foo" });
+      expectEqual(result.err("bar").toJSON(), { Err: "bar" });
+      expectEqual(JSON.stringify(result.ok(result.err(1))), '{"Ok":{"Err":1}}');
+    }),
+
+    example("Result.prototype.iter()", () => {
+      expectEqual([...result.ok("foo").iter()], ["foo"]);
+      expectEqual([...result.err("bar").iter()], []);
+      expectEqual(
+        result
+          .ok("foo")
+          .iter()
+          .next(),
+        OptionImpl.some("foo"),
+      );
+    }),
+
+    example(
+      "Result.prototype.bind() yields a tagged step, then returns the inner value",
+      () => {
+        const okIterator = result.ok("foo").bind();
+        expectEqual(okIterator.next(), { done: false, value: ["ok", "foo"] });
+        expectEqual(okIterator.next(), { done: true, value: "foo" });
+        expectEqual(
+          result
+            .err("bar")
+            .bind()
+            .next(),
+          {
+            done: false,
+            value: ["err", "bar"],
+          },
+        );
+      },
+    ),
+
+    example(
+      "Result.prototype[Symbol.iterator]() supports for...of and spread",
+      () => {
+        expectEqual([...result.ok("foo")], ["foo"]);
+        expectEqual([...result.err("bar")], []);
+      },
+    ),
+  ];
+}
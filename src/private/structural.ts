@@ -0,0 +1,353 @@
+import OptionImpl from "./OptionImpl";
+import ResultImpl from "./ResultImpl";
+
+/**
+ * The default equality used by `Option.prototype.equals()`
+ * and `Result.prototype.equals()`.
+ *
+ * Options, results, arrays, and plain objects are compared structurally
+ * (plain objects must have the same keys, in any order).
+ * `Date`s are compared by time.
+ * Primitives are compared with `===`, except that `NaN` equals `NaN`.
+ * Any other objects are compared by identity.
+ * Cyclic values are equal if no difference is found before
+ * the comparison returns to a pair of objects it is already comparing.
+ */
+export function deepEquals(a: unknown, b: unknown): boolean {
+  if (a === b || (a !== a && b !== b)) {
+    return true;
+  }
+  if (
+    "object" !== typeof a ||
+    a === null ||
+    "object" !== typeof b ||
+    b === null
+  ) {
+    return false;
+  }
+  return guardCycle(equating, a as object, b as object, true, () =>
+    equalObjects(a, b),
+  );
+}
+
+function equalObjects(a: unknown, b: unknown): boolean {
+  if (OptionImpl.isOption(a) && OptionImpl.isOption(b)) {
+    return a.equals(b);
+  }
+  if (ResultImpl.isResult(a) && ResultImpl.isResult(b)) {
+    return a.equals(b);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((item, i) => deepEquals(item, b[i]))
+    );
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const aKeys = Object.keys(a);
+    return (
+      aKeys.length === Object.keys(b).length &&
+      aKeys.every(
+        key =>
+          Object.prototype.hasOwnProperty.call(b, key) &&
+          deepEquals(a[key], b[key]),
+      )
+    );
+  }
+  return false;
+}
+
+/**
+ * The default comparator used by `Option.prototype.compare()`
+ * and `Result.prototype.compare()`.
+ *
+ * Returns a negative number if `a < b`, zero if `a` and `b` are equal,
+ * and a positive number if `a > b`.
+ *
+ * Numbers (and bigints) are compared numerically, with `NaN` sorting
+ * after every other number.
+ * Strings are compared by UTF-16 code units, and `false < true`.
+ * Options, results, arrays, and plain objects are compared
+ * lexicographically, like Rust's derived `Ord`
+ * (plain objects are compared by their sorted keys, then by
+ * the values of those keys).
+ * Values of different types are ordered
+ * `undefined < null < boolean < number < string < Date < array < Option < Result < plain object`.
+ * Any other objects are considered equal to each other.
+ * A pair of objects reached again while still being compared
+ * (i.e., a cycle) is considered equal.
+ */
+export function deepCompare(a: unknown, b: unknown): number {
+  const aRank = rank(a);
+  const bRank = rank(b);
+  if (aRank !== bRank) {
+    return aRank - bRank;
+  }
+  if ("object" === typeof a && a !== null) {
+    return guardCycle(comparing, a as object, b as object, 0, () =>
+      compareSameRank(aRank, a, b),
+    );
+  }
+  return compareSameRank(aRank, a, b);
+}
+
+function compareSameRank(aRank: Rank, a: unknown, b: unknown): number {
+  switch (aRank) {
+    case Rank.Boolean:
+    case Rank.String:
+      return compareValues(a as string, b as string);
+    case Rank.Number:
+      return compareNumbers(a as number | bigint, b as number | bigint);
+    case Rank.Date:
+      return compareNumbers((a as Date).getTime(), (b as Date).getTime());
+    case Rank.Array:
+      return compareArrays(a as unknown[], b as unknown[], deepCompare);
+    case Rank.Option:
+      return (a as OptionImpl<unknown>).compare(b as OptionImpl<unknown>);
+    case Rank.Result:
+      return (a as ResultImpl<unknown, unknown>).compare(
+        b as ResultImpl<unknown, unknown>,
+      );
+    case Rank.PlainObject: {
+      const aObject = a as { [key: string]: unknown };
+      const bObject = b as { [key: string]: unknown };
+      const aKeys = Object.keys(aObject).sort();
+      const bKeys = Object.keys(bObject).sort();
+      const keyOrder = compareArrays(aKeys, bKeys, compareValues);
+      if (keyOrder !== 0) {
+        return keyOrder;
+      }
+      return compareArrays(
+        aKeys.map(key => aObject[key]),
+        bKeys.map(key => bObject[key]),
+        deepCompare,
+      );
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * The default hash function used by `Option.prototype.hash()`
+ * and `Result.prototype.hash()`.
+ *
+ * Returns an unsigned 32-bit integer that is consistent with `deepEquals()`
+ * (i.e., equal values have equal hashes) and stable across runs.
+ * A reference back to an object that is being hashed (i.e., a cycle)
+ * contributes a fixed hash, so equal cyclic values whose cycles
+ * have the same shape have equal hashes.
+ */
+export function deepHash(value: unknown): number {
+  if (value === undefined) {
+    return hashString(FNV_OFFSET_BASIS, "u");
+  }
+  if (value === null) {
+    return hashString(FNV_OFFSET_BASIS, "n");
+  }
+  switch (typeof value) {
+    case "boolean":
+      return hashString(FNV_OFFSET_BASIS, value ? "b1" : "b0");
+    case "number":
+      // `String(-0)` is `"0"`, which is consistent with `-0 === 0`.
+      return hashString(FNV_OFFSET_BASIS, "d" + String(value));
+    case "bigint":
+      return hashString(FNV_OFFSET_BASIS, "i" + String(value));
+    case "string":
+      return hashString(FNV_OFFSET_BASIS, "s" + value);
+  }
+  if ("object" !== typeof value) {
+    // Functions and symbols are compared by identity.
+    return hashString(FNV_OFFSET_BASIS, "x");
+  }
+  const object = value as object;
+  if (hashing.has(object)) {
+    return hashString(FNV_OFFSET_BASIS, "c");
+  }
+  hashing.add(object);
+  try {
+    return hashObject(object);
+  } finally {
+    hashing.delete(object);
+  }
+}
+
+function hashObject(value: object): number {
+  if (OptionImpl.isOption(value)) {
+    return hashInt(hashString(FNV_OFFSET_BASIS, "o"), value.hash());
+  }
+  if (ResultImpl.isResult(value)) {
+    return hashInt(hashString(FNV_OFFSET_BASIS, "r"), value.hash());
+  }
+  if (Array.isArray(value)) {
+    return value.reduce<number>(
+      (hash, item) => hashInt(hash, deepHash(item)),
+      hashString(FNV_OFFSET_BASIS, "a" + value.length),
+    );
+  }
+  if (value instanceof Date) {
+    return hashString(FNV_OFFSET_BASIS, "t" + value.getTime());
+  }
+  if (isPlainObject(value)) {
+    return Object.keys(value)
+      .sort()
+      .reduce<number>(
+        (hash, key) => hashInt(hashString(hash, key), deepHash(value[key])),
+        hashString(FNV_OFFSET_BASIS, "p"),
+      );
+  }
+  // Objects compared by identity all share one hash.
+  return hashString(FNV_OFFSET_BASIS, "x");
+}
+
+/**
+ * The pairs of objects that `deepEquals()` and `deepCompare()` are
+ * currently comparing (each left operand maps to its right operands),
+ * and the objects that `deepHash()` is currently hashing.
+ * A pair or object reached again while still in progress is part of
+ * a cycle: the pair is treated as equal, and the object gets a fixed hash.
+ */
+const equating = new Map<object, Set<object>>();
+const comparing = new Map<object, Set<object>>();
+const hashing = new Set<object>();
+
+/**
+ * Returns `body()`, or `onCycle` if `a` and `b` are already
+ * being compared further up the stack.
+ */
+function guardCycle<R>(
+  inProgress: Map<object, Set<object>>,
+  a: object,
+  b: object,
+  onCycle: R,
+  body: () => R,
+): R {
+  let partners = inProgress.get(a);
+  if (partners === undefined) {
+    partners = new Set();
+    inProgress.set(a, partners);
+  } else if (partners.has(b)) {
+    return onCycle;
+  }
+  partners.add(b);
+  try {
+    return body();
+  } finally {
+    partners.delete(b);
+    if (partners.size === 0) {
+      inProgress.delete(a);
+    }
+  }
+}
+
+/**
+ * Mixes `n` into `hash`, so that hashes of composite values
+ * can be built from the hashes of their parts.
+ */
+export function hashInt(hash: number, n: number): number {
+  for (let shift = 0; shift < 32; shift += 8) {
+    hash = Math.imul(hash ^ ((n >>> shift) & 0xff), FNV_PRIME) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * The starting value of a 32-bit FNV-1a hash.
+ */
+export const FNV_OFFSET_BASIS = 0x811c9dc5;
+
+const FNV_PRIME = 0x01000193;
+
+function hashString(hash: number, s: string): number {
+  for (let i = 0; i < s.length; i++) {
+    const code = s.charCodeAt(i);
+    hash = Math.imul(hash ^ (code & 0xff), FNV_PRIME) >>> 0;
+    hash = Math.imul(hash ^ (code >>> 8), FNV_PRIME) >>> 0;
+  }
+  return hash;
+}
+
+enum Rank {
+  Undefined,
+  Null,
+  Boolean,
+  Number,
+  String,
+  Date,
+  Array,
+  Option,
+  Result,
+  PlainObject,
+  Other,
+}
+
+function rank(value: unknown): Rank {
+  if (value === undefined) {
+    return Rank.Undefined;
+  }
+  if (value === null) {
+    return Rank.Null;
+  }
+  switch (typeof value) {
+    case "boolean":
+      return Rank.Boolean;
+    case "number":
+    case "bigint":
+      return Rank.Number;
+    case "string":
+      return Rank.String;
+  }
+  if (value instanceof Date) {
+    return Rank.Date;
+  }
+  if (Array.isArray(value)) {
+    return Rank.Array;
+  }
+  if (OptionImpl.isOption(value)) {
+    return Rank.Option;
+  }
+  if (ResultImpl.isResult(value)) {
+    return Rank.Result;
+  }
+  if (isPlainObject(value)) {
+    return Rank.PlainObject;
+  }
+  return Rank.Other;
+}
+
+function compareValues<T>(a: T, b: T): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareNumbers(a: number | bigint, b: number | bigint): number {
+  const aIsNaN = a !== a;
+  const bIsNaN = b !== b;
+  if (aIsNaN || bIsNaN) {
+    return Number(aIsNaN) - Number(bIsNaN);
+  }
+  return compareValues(a, b);
+}
+
+function compareArrays<T>(
+  a: T[],
+  b: T[],
+  compare: (a: T, b: T) => number,
+): number {
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    const order = compare(a[i], b[i]);
+    if (order !== 0) {
+      return order;
+    }
+  }
+  return a.length - b.length;
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  if ("object" !== typeof value || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
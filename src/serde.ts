@@ -0,0 +1,352 @@
+import Option from "./Option";
+import OptionImpl from "./private/OptionImpl";
+import Result from "./Result";
+import ResultImpl from "./private/ResultImpl";
+
+/**
+ * How results are represented in JSON, mirroring serde's
+ * enum representations:
+ *
+ * - `"external"` (serde's default): `{ "Ok": t }` or `{ "Err": e }`.
+ * - `{ tag }` (`#[serde(tag = "...")]`): the inner value must be an object,
+ *   and the tag is added to its fields, e.g. `{ "type": "Ok", ...t }`.
+ * - `{ tag, content }` (`#[serde(tag = "...", content = "...")]`):
+ *   `{ "t": "Ok", "c": t }`.
+ * - `"untagged"` (`#[serde(untagged)]`): just `t` or `e`.
+ *
+ * Options are always represented as `null` (for `none`)
+ * or the wrapped value (for `some`), like serde does.
+ */
+export type ResultTagging =
+  | "external"
+  | "untagged"
+  | { tag: string }
+  | { tag: string; content: string };
+
+/**
+ * Describes why a JSON value could not be decoded.
+ */
+export interface DecodeError {
+  /**
+   * The keys and indices leading from the root of the
+   * JSON value to the part that could not be decoded.
+   */
+  path: (string | number)[];
+
+  message: string;
+}
+
+/**
+ * A description of the shape of a JSON value that tells `serde.decode()`
+ * where to revive options and results.
+ *
+ * Shapes are created with the functions in `serde.shape`.
+ */
+export interface Shape<T> {
+  decode(
+    json: unknown,
+    tagging: ResultTagging,
+    path: (string | number)[],
+  ): Result<T, DecodeError>;
+}
+
+/**
+ * The type that a `Shape` decodes to.
+ *
+ * For example, `ShapeType<Shape<Option<string>>>` is `Option<string>`.
+ */
+export type ShapeType<S> = S extends Shape<infer T> ? T : never;
+
+export const serde = {
+  /**
+   * Converts a value into plain JSON data, replacing every `Option`
+   * and `Result` nested in arrays and plain objects with its
+   * serde representation.
+   *
+   * Throws a `TypeError` if `tagging` is internal (`{ tag }`)
+   * and the inner value of a result is not an object.
+   *
+   * @param value The value to encode.
+   * @param tagging How results are represented. Defaults to `"external"`.
+   */
+  encode(value: unknown, tagging: ResultTagging = "external"): unknown {
+    if (OptionImpl.isOption(value)) {
+      return value.match({
+        none: () => null,
+        some: inner => serde.encode(inner, tagging),
+      });
+    }
+    if (ResultImpl.isResult(value)) {
+      return value.match({
+        ok: inner => tagResult("Ok", serde.encode(inner, tagging), tagging),
+        err: inner => tagResult("Err", serde.encode(inner, tagging), tagging),
+      });
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => serde.encode(item, tagging));
+    }
+    if (isPlainObject(value)) {
+      const encoded: { [key: string]: unknown } = {};
+      Object.keys(value).forEach(key => {
+        encoded[key] = serde.encode(value[key], tagging);
+      });
+      return encoded;
+    }
+    return value;
+  },
+
+  /**
+   * Revives a JSON value (e.g., the return value of `JSON.parse()`)
+   * into a value of the provided shape.
+   *
+   * Returns `ok(value)` if the JSON value matches the shape,
+   * otherwise returns `err(decodeError)` describing the first mismatch.
+   *
+   * @param json The JSON value to decode.
+   * @param shape The shape of the decoded value.
+   * @param tagging How results are represented. Defaults to `"external"`.
+   */
+  decode<T>(
+    json: unknown,
+    shape: Shape<T>,
+    tagging: ResultTagging = "external",
+  ): Result<T, DecodeError> {
+    return shape.decode(json, tagging, []);
+  },
+
+  shape: {
+    /**
+     * Accepts any JSON value as-is.
+     */
+    unknown(): Shape<unknown> {
+      return { decode: json => ResultImpl.ok(json) };
+    },
+
+    string(): Shape<string> {
+      return primitiveShape("string");
+    },
+
+    number(): Shape<number> {
+      return primitiveShape("number");
+    },
+
+    boolean(): Shape<boolean> {
+      return primitiveShape("boolean");
+    },
+
+    /**
+     * Decodes `null` (or a missing object field) to `none`,
+     * and any other value to `some` of the inner shape.
+     *
+     * @param inner The shape of the wrapped value.
+     */
+    option<T>(inner: Shape<T>): Shape<Option<T>> {
+      return {
+        decode: (json, tagging, path) =>
+          json === null || json === undefined
+            ? ResultImpl.ok(OptionImpl.none())
+            : inner
+                .decode(json, tagging, path)
+                .map(value => OptionImpl.some(value)),
+      };
+    },
+
+    /**
+     * Decodes a result represented according to the `tagging` passed
+     * to `serde.decode()`.
+     *
+     * Untagged results are decoded as `ok` if the value matches
+     * the ok shape, otherwise as `err`.
+     *
+     * @param ok The shape of the `ok` value.
+     * @param err The shape of the `err` value.
+     */
+    result<T, E>(ok: Shape<T>, err: Shape<E>): Shape<Result<T, E>> {
+      return {
+        decode: (json, tagging, path) =>
+          decodeResult(json, ok, err, tagging, path),
+      };
+    },
+
+    /**
+     * @param item The shape of each item.
+     */
+    array<T>(item: Shape<T>): Shape<T[]> {
+      return {
+        decode: (json, tagging, path) => {
+          if (!Array.isArray(json)) {
+            return ResultImpl.err(mismatch("an array", json, path));
+          }
+          const values: T[] = [];
+          for (let i = 0; i < json.length; i++) {
+            const decoded = item.decode(json[i], tagging, path.concat(i));
+            if (decoded.isErr()) {
+              return ResultImpl.err(decoded.error);
+            }
+            values.push(decoded.value);
+          }
+          return ResultImpl.ok(values);
+        },
+      };
+    },
+
+    /**
+     * Decodes an object with the provided fields.
+     * Fields not described by the shape are ignored.
+     *
+     * @param fields The shape of each field.
+     */
+    object<S extends { [key: string]: Shape<unknown> }>(
+      fields: S,
+    ): Shape<{ [K in keyof S]: ShapeType<S[K]> }> {
+      return {
+        decode: (json, tagging, path) => {
+          if (!isPlainObject(json)) {
+            return ResultImpl.err(mismatch("an object", json, path));
+          }
+          const values = {} as { [K in keyof S]: ShapeType<S[K]> };
+          const keys = Object.keys(fields) as (keyof S & string)[];
+          for (let i = 0; i < keys.length; i++) {
+            const key = keys[i];
+            const decoded = fields[key].decode(
+              json[key],
+              tagging,
+              path.concat(key),
+            );
+            if (decoded.isErr()) {
+              return ResultImpl.err(decoded.error);
+            }
+            values[key] = decoded.value as ShapeType<S[typeof key]>;
+          }
+          return ResultImpl.ok(values);
+        },
+      };
+    },
+  },
+};
+
+function primitiveShape<T>(type: "string" | "number" | "boolean"): Shape<T> {
+  return {
+    decode: (json, _tagging, path) =>
+      typeof json === type
+        ? ResultImpl.ok(json as T)
+        : ResultImpl.err(mismatch(`a ${type}`, json, path)),
+  };
+}
+
+function tagResult(
+  variant: "Ok" | "Err",
+  content: unknown,
+  tagging: ResultTagging,
+): unknown {
+  if (tagging === "external") {
+    return { [variant]: content };
+  }
+  if (tagging === "untagged") {
+    return content;
+  }
+  if ("content" in tagging) {
+    return { [tagging.tag]: variant, [tagging.content]: content };
+  }
+  if (!isPlainObject(content)) {
+    throw new TypeError(
+      `Cannot encode result.${variant.toLowerCase()}() with tag "${
+        tagging.tag
+      }" because its inner value is not an object.`,
+    );
+  }
+  return { [tagging.tag]: variant, ...content };
+}
+
+function decodeResult<T, E>(
+  json: unknown,
+  ok: Shape<T>,
+  err: Shape<E>,
+  tagging: ResultTagging,
+  path: (string | number)[],
+): Result<Result<T, E>, DecodeError> {
+  if (tagging === "untagged") {
+    return ok
+      .decode(json, tagging, path)
+      .map(value => ResultImpl.ok<T, E>(value))
+      .orElse(() =>
+        err
+          .decode(json, tagging, path)
+          .map(error => ResultImpl.err<T, E>(error)),
+      )
+      .mapErr(() => mismatch("an untagged result", json, path));
+  }
+
+  if (!isPlainObject(json)) {
+    return ResultImpl.err(mismatch("a tagged result", json, path));
+  }
+
+  let variant: unknown;
+  let content: unknown;
+  let contentPath = path;
+  if (tagging === "external") {
+    const keys = Object.keys(json);
+    if (keys.length !== 1) {
+      return ResultImpl.err(
+        mismatch('an object with a single "Ok" or "Err" key', json, path),
+      );
+    }
+    variant = keys[0];
+    content = json[keys[0]];
+    contentPath = path.concat(keys[0]);
+  } else if ("content" in tagging) {
+    variant = json[tagging.tag];
+    content = json[tagging.content];
+    contentPath = path.concat(tagging.content);
+  } else {
+    variant = json[tagging.tag];
+    const fields: { [key: string]: unknown } = {};
+    Object.keys(json)
+      .filter(key => key !== tagging.tag)
+      .forEach(key => {
+        fields[key] = json[key];
+      });
+    content = fields;
+  }
+
+  if (variant === "Ok") {
+    return ok
+      .decode(content, tagging, contentPath)
+      .map(value => ResultImpl.ok<T, E>(value));
+  }
+  if (variant === "Err") {
+    return err
+      .decode(content, tagging, contentPath)
+      .map(error => ResultImpl.err<T, E>(error));
+  }
+  return ResultImpl.err(mismatch('an "Ok" or "Err" tag', variant, path));
+}
+
+function mismatch(
+  expected: string,
+  actual: unknown,
+  path: (string | number)[],
+): DecodeError {
+  return {
+    path,
+    message: `Expected ${expected} at ${formatPath(path)}, but got ${
+      actual === undefined ? "undefined" : JSON.stringify(actual)
+    }.`,
+  };
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (formatted, key) =>
+      formatted + ("number" === typeof key ? `[${key}]` : `.${key}`),
+    "$",
+  );
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  if ("object" !== typeof value || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
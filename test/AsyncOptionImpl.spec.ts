@@ -0,0 +1,7 @@
+import { option } from "../src/";
+import { testAsyncOptionImpl } from "./asyncOptionImplTester";
+
+testAsyncOptionImpl({
+  some: value => option.async(option.some(value)),
+  none: () => option.async(option.none()),
+});
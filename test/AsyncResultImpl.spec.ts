@@ -0,0 +1,7 @@
+import { result } from "../src/";
+import { testAsyncResultImpl } from "./asyncResultImplTester";
+
+testAsyncResultImpl({
+  ok: value => result.async(result.ok(value)),
+  err: error => result.async(result.err(error)),
+});
@@ -0,0 +1,82 @@
+import { ContextError, option, result } from "../src";
+
+class NotFoundError extends Error {
+  constructor(readonly path: string) {
+    super(`${path} does not exist`);
+    Object.setPrototypeOf(this, NotFoundError.prototype);
+  }
+}
+
+function loadConfig(): ContextError<ContextError<NotFoundError>> {
+  return result
+    .err(new NotFoundError("config.json"))
+    .context("Failed to read config.json")
+    .context("Failed to load config")
+    .unwrapErr();
+}
+
+test("ContextError is an Error", () => {
+  const error = new ContextError("Failed to parse", "bad digit");
+  expect(error).toBeInstanceOf(ContextError);
+  expect(error).toBeInstanceOf(Error);
+  expect(error.name).toBe("ContextError");
+  expect(error.message).toBe("Failed to parse");
+  expect(typeof error.stack).toBe("string");
+});
+
+test("ContextError.prototype.chain() walks from the outermost context to the root cause", () => {
+  const error = loadConfig();
+  expect(error.chain()).toEqual([error, error.cause, error.cause.cause]);
+  expect(error.rootCause()).toBeInstanceOf(NotFoundError);
+});
+
+test("ContextError.prototype.chain() follows the cause of any error", () => {
+  const root = new Error("root");
+  const middle = Object.assign(new Error("middle"), { cause: root });
+  const error = new ContextError("outer", middle);
+  expect(error.chain()).toEqual([error, middle, root]);
+});
+
+test("ContextError.prototype.chain() stops at cycles", () => {
+  const cyclic: { message: string; cause?: unknown } = { message: "cyclic" };
+  cyclic.cause = cyclic;
+  const error = new ContextError("outer", cyclic);
+  expect(error.chain()).toEqual([error, cyclic]);
+});
+
+test("ContextError.prototype.downcast()", () => {
+  const error = loadConfig();
+  expect(error.downcast(NotFoundError).map(e => e.path)).toEqual(
+    option.some("config.json"),
+  );
+  expect(error.downcast(ContextError)).toEqual(option.some(error));
+  expect(error.downcast(RangeError)).toEqual(option.none());
+});
+
+test("ContextError.prototype.toString() renders the chain like anyhow", () => {
+  expect(loadConfig().toString()).toBe(
+    [
+      "Failed to load config",
+      "",
+      "Caused by:",
+      "    0: Failed to read config.json",
+      "    1: config.json does not exist",
+    ].join("\n"),
+  );
+  expect(new ContextError("outer", { code: 2 }).toString()).toBe(
+    "outer\n\nCaused by:\n    0: { code: 2 }",
+  );
+  expect(String(new ContextError("outer", "line 1\nline 2"))).toBe(
+    "outer\n\nCaused by:\n    0: line 1\n       line 2",
+  );
+});
+
+test("ContextError.prototype.toJSON()", () => {
+  expect(JSON.parse(JSON.stringify({ error: loadConfig() }))).toEqual({
+    error: {
+      name: "ContextError",
+      message: "Failed to load config",
+      causes: ["Failed to read config.json", "config.json does not exist"],
+    },
+  });
+});
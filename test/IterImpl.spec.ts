@@ -0,0 +1,4 @@
+import { iter } from "../src/";
+import { testIterImpl } from "./iterImplTester";
+
+testIterImpl(iter);
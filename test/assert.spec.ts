@@ -0,0 +1,22 @@
+import { UnwrapError, assert } from "../src";
+
+test("assert() does nothing if the condition is truthy", () => {
+  expect(() => assert(true)).not.toThrow();
+  expect(() => assert(1, "never shown")).not.toThrow();
+});
+
+test("assert() throws an UnwrapError if the condition is falsy", () => {
+  expect(() => assert(false)).toThrow(UnwrapError);
+  expect(() => assert(0)).toThrow(
+    new UnwrapError("assertion failed", undefined),
+  );
+  expect(() => assert("", "name must not be empty")).toThrow(
+    new UnwrapError("name must not be empty", undefined),
+  );
+});
+
+test("assert() narrows the condition", () => {
+  const value: string | undefined = ["foo"][0];
+  assert(value !== undefined);
+  expect(value.length).toBe(3);
+});
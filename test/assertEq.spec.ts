@@ -0,0 +1,104 @@
+import { UnwrapError, assertEq, option, panicking, result } from "../src";
+
+function panicMessage(thunk: () => void): string {
+  return panicking.catchUnwind(thunk).unwrapErr().message;
+}
+
+test("assertEq() does nothing if the values are structurally equal", () => {
+  expect(() => assertEq(NaN, NaN)).not.toThrow();
+  expect(() =>
+    assertEq(
+      { a: [option.some(1)], b: result.err("x") },
+      { b: result.err("x"), a: [option.some(1)] },
+    ),
+  ).not.toThrow();
+});
+
+test("assertEq() throws an UnwrapError carrying both values", () => {
+  expect(() => assertEq(1, 2)).toThrow(UnwrapError);
+  const payload = panicking.catchUnwind(() => assertEq(1, 2)).unwrapErr()
+    .payload;
+  expect(payload).toEqual({ left: 1, right: 2 });
+});
+
+test("assertEq() shows both values like Rust", () => {
+  expect(panicMessage(() => assertEq("foo", "bar"))).toBe(
+    ["assertion `left == right` failed", '  left: "foo"', ' right: "bar"'].join(
+      "\n",
+    ),
+  );
+  expect(
+    panicMessage(() => assertEq(option.none<number>(), option.some(1), "ids")),
+  ).toBe(
+    ["assertion `left == right` failed: ids", "  left: None", " right: Some(1)"]
+      .concat([
+        "",
+        "Diff (- left, + right):",
+        "- None",
+        "+ Some(",
+        "+     1,",
+        "+ )",
+      ])
+      .join("\n"),
+  );
+});
+
+test("assertEq() renders a structural diff of nested values", () => {
+  const message = panicMessage(() =>
+    assertEq(
+      { id: 1, tags: option.some(["a", "b"]), status: result.ok("active") },
+      { id: 1, tags: option.some(["a", "c"]), status: result.ok("active") },
+    ),
+  );
+  expect(message).toContain(
+    [
+      "Diff (- left, + right):",
+      "  {",
+      "      id: 1,",
+      "      tags: Some(",
+      "          [",
+      '              "a",',
+      '-             "b",',
+      '+             "c",',
+      "          ],",
+      "      ),",
+      "      status: Ok(",
+      '          "active",',
+      "      ),",
+      "  }",
+    ].join("\n"),
+  );
+});
+
+test("assertEq() compares cyclic values", () => {
+  type Node = { id: number; self?: Node };
+  const node: Node = { id: 1 };
+  node.self = node;
+  const copy = result
+    .ok(node)
+    .cloned()
+    .unwrap();
+  expect(() => assertEq(node, copy)).not.toThrow();
+
+  const other: Node = { id: 2 };
+  other.self = other;
+  const hook = jest.fn();
+  panicking.setHook(hook);
+  const caught = panicking.catchUnwind(() => assertEq(node, other));
+  panicking.takeHook();
+  expect(hook).toHaveBeenCalledTimes(1);
+  expect(caught.unwrapErr().message).toBe(
+    [
+      "assertion `left == right` failed",
+      "  left: { id: 1, self: [Circular] }",
+      " right: { id: 2, self: [Circular] }",
+      "",
+      "Diff (- left, + right):",
+      "  {",
+      "-     id: 1,",
+      "+     id: 2,",
+      "      self: [Circular],",
+      "  }",
+    ].join("\n"),
+  );
+});
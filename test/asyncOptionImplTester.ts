@@ -0,0 +1,266 @@
+import { AsyncOption, option, result } from "../src";
+
+export interface AsyncOptionFactory {
+  some<T>(value: T): AsyncOption<T>;
+  none<T = never>(): AsyncOption<T>;
+}
+
+/**
+ * Can be used to test any implementation of `AsyncOption`—simply
+ * pass in a factory that creates instances of the implementation
+ * you want to test.
+ */
+export function testAsyncOptionImpl(asyncOption: AsyncOptionFactory) {
+  test("AsyncOption is awaitable", async () => {
+    expect(await asyncOption.some("foo")).toEqual(option.some("foo"));
+    expect(await asyncOption.none()).toEqual(option.none());
+  });
+
+  test("AsyncOption.prototype.isSome()", async () => {
+    expect(await asyncOption.some(42).isSome()).toBe(true);
+    expect(await asyncOption.some(undefined).isSome()).toBe(true);
+    expect(await asyncOption.none().isSome()).toBe(false);
+  });
+
+  test("AsyncOption.prototype.isNone()", async () => {
+    expect(await asyncOption.some(42).isNone()).toBe(false);
+    expect(await asyncOption.none().isNone()).toBe(true);
+  });
+
+  test("AsyncOption.prototype.match() calls correct callback", async () => {
+    function getMatcher() {
+      return {
+        none: jest.fn(() => -1),
+        some: jest.fn(x => Promise.resolve(x.toUpperCase())),
+      };
+    }
+
+    const matcher1 = getMatcher();
+    expect(await asyncOption.some("foo").match(matcher1)).toBe("FOO");
+    expect(matcher1.some.mock.calls).toEqual([["foo"]]);
+    expect(matcher1.none.mock.calls.length).toBe(0);
+
+    const matcher2 = getMatcher();
+    expect(await asyncOption.none().match(matcher2)).toBe(-1);
+    expect(matcher2.none.mock.calls).toEqual([[]]);
+    expect(matcher2.some.mock.calls.length).toBe(0);
+  });
+
+  test("AsyncOption.prototype.map() only calls callback if `this` is some", async () => {
+    const mapper1 = jest.fn(x => Promise.resolve(x * 3));
+    expect(await asyncOption.some(4).map(mapper1)).toEqual(option.some(12));
+    expect(mapper1.mock.calls).toEqual([[4]]);
+
+    const mapper2 = jest.fn(x => x * 3);
+    expect(await asyncOption.none().map(mapper2)).toEqual(option.none());
+    expect(mapper2.mock.calls.length).toBe(0);
+  });
+
+  test("AsyncOption.prototype.ifSome() only calls callback if `this` is some", async () => {
+    const callback1 = jest.fn(() => {});
+    await asyncOption.some("foo").ifSome(callback1);
+    expect(callback1.mock.calls).toEqual([["foo"]]);
+
+    const callback2 = jest.fn(() => {});
+    await asyncOption.none().ifSome(callback2);
+    expect(callback2.mock.calls.length).toBe(0);
+  });
+
+  test("AsyncOption.prototype.ifNone() only calls callback if `this` is none", async () => {
+    const callback1 = jest.fn(() => {});
+    await asyncOption.some("foo").ifNone(callback1);
+    expect(callback1.mock.calls.length).toBe(0);
+
+    const callback2 = jest.fn(() => {});
+    await asyncOption.none().ifNone(callback2);
+    expect(callback2.mock.calls.length).toBe(1);
+  });
+
+  test("AsyncOption.prototype.unwrap()", async () => {
+    expect(await asyncOption.some("foo").unwrap()).toBe("foo");
+
+    let error: Error | undefined;
+    try {
+      await asyncOption.none().unwrap();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).not.toBe(undefined);
+    expect(error!.name).toBe("UnwrapError");
+    expect(error!.message).toBe("called `Option::unwrap()` on a `None` value");
+  });
+
+  test("AsyncOption.prototype.expect()", async () => {
+    expect(await asyncOption.some("foo").expect("Oh noes!")).toBe("foo");
+    await expect(asyncOption.none().expect("Oh noes!")).rejects.toThrow(
+      "Oh noes!",
+    );
+
+    const providedError = new Error("Oh noes!");
+    let actualError: Error | undefined;
+    try {
+      await asyncOption.none().expect(providedError);
+    } catch (e) {
+      actualError = e;
+    }
+    expect(actualError).toBe(providedError);
+  });
+
+  test("AsyncOption.prototype.unwrapOr()", async () => {
+    expect(await asyncOption.some(42).unwrapOr(-19)).toBe(42);
+    expect(await asyncOption.none().unwrapOr(-19)).toBe(-19);
+  });
+
+  test("AsyncOption.prototype.unwrapOrElse() only calls the provided thunk if `this` is none", async () => {
+    const thunk1 = jest.fn(() => Promise.resolve(-19));
+    expect(await asyncOption.some(42).unwrapOrElse(thunk1)).toBe(42);
+    expect(thunk1.mock.calls.length).toBe(0);
+
+    const thunk2 = jest.fn(() => Promise.resolve(-19));
+    expect(await asyncOption.none().unwrapOrElse(thunk2)).toBe(-19);
+    expect(thunk2.mock.calls.length).toBe(1);
+  });
+
+  test("AsyncOption.prototype.and()", async () => {
+    expect(await asyncOption.some("foo").and(option.some(42))).toEqual(
+      option.some(42),
+    );
+    expect(
+      await asyncOption.some("foo").and(Promise.resolve(option.none())),
+    ).toEqual(option.none());
+    expect(await asyncOption.none().and(option.some(42))).toEqual(
+      option.none(),
+    );
+  });
+
+  test("AsyncOption.prototype.andThen() only calls the provided flat mapper if `this` is some", async () => {
+    const firstChar = jest.fn(async (s: string) =>
+      s.length === 0 ? option.none<string>() : option.some(s.charAt(0)),
+    );
+
+    expect(await asyncOption.none().andThen(firstChar)).toEqual(option.none());
+    expect(firstChar.mock.calls.length).toBe(0);
+    expect(await asyncOption.some("foo").andThen(firstChar)).toEqual(
+      option.some("f"),
+    );
+    expect(await asyncOption.some("").andThen(firstChar)).toEqual(
+      option.none(),
+    );
+    expect(firstChar.mock.calls).toEqual([["foo"], [""]]);
+  });
+
+  test("AsyncOption.prototype.andThen() accepts callbacks returning an AsyncOption", async () => {
+    expect(
+      await asyncOption.some(2).andThen(x => asyncOption.some(x + 1)),
+    ).toEqual(option.some(3));
+  });
+
+  test("AsyncOption.prototype.or()", async () => {
+    expect(await asyncOption.some("foo").or(option.some(42))).toEqual(
+      option.some("foo"),
+    );
+    expect(
+      await asyncOption.none().or(Promise.resolve(option.some(42))),
+    ).toEqual(option.some(42));
+    expect(await asyncOption.none().or(option.none())).toEqual(option.none());
+  });
+
+  test("AsyncOption.prototype.and() and AsyncOption.prototype.or() handle a rejected argument they ignore", async () => {
+    const unhandled = jest.fn();
+    process.on("unhandledRejection", unhandled);
+    try {
+      expect(
+        await asyncOption.none().and(Promise.reject(new Error("and"))),
+      ).toEqual(option.none());
+      expect(
+        await asyncOption
+          .some(1)
+          .or(Promise.reject(new Error("fallback lookup failed"))),
+      ).toEqual(option.some(1));
+      await new Promise(resolve => setTimeout(resolve, 0));
+    } finally {
+      process.removeListener("unhandledRejection", unhandled);
+    }
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+
+  test("AsyncOption.prototype.orElse() only calls the provided callback if `this` is none", async () => {
+    const getSome42 = jest.fn(async () => option.some(42));
+
+    expect(await asyncOption.some("foo").orElse(getSome42)).toEqual(
+      option.some("foo"),
+    );
+    expect(getSome42.mock.calls.length).toBe(0);
+
+    expect(await asyncOption.none().orElse(getSome42)).toEqual(option.some(42));
+    expect(getSome42.mock.calls).toEqual([[]]);
+  });
+
+  test("AsyncOption.prototype.filter() only calls the provided predicate if `this` is some", async () => {
+    const isEven = jest.fn(async n => n % 2 === 0);
+
+    expect(await asyncOption.none().filter(isEven)).toEqual(option.none());
+    expect(isEven.mock.calls.length).toBe(0);
+
+    expect(await asyncOption.some(1).filter(isEven)).toEqual(option.none());
+    expect(await asyncOption.some(2).filter(isEven)).toEqual(option.some(2));
+    expect(isEven.mock.calls).toEqual([[1], [2]]);
+  });
+
+  test("AsyncOption.prototype.flatten()", async () => {
+    expect(await asyncOption.some(option.some("foo")).flatten()).toEqual(
+      option.some("foo"),
+    );
+    expect(await asyncOption.some(option.none()).flatten()).toEqual(
+      option.none(),
+    );
+    expect(await asyncOption.none().flatten()).toEqual(option.none());
+  });
+
+  test("AsyncOption.prototype.array()", async () => {
+    expect(await asyncOption.none().array()).toEqual([]);
+    expect(await asyncOption.some("foo").array()).toEqual(["foo"]);
+  });
+
+  test("AsyncOption.prototype.xor()", async () => {
+    expect(await asyncOption.some("foo").xor(option.some(42))).toEqual(
+      option.none(),
+    );
+    expect(await asyncOption.some("foo").xor(option.none())).toEqual(
+      option.some("foo"),
+    );
+    expect(
+      await asyncOption.none().xor(Promise.resolve(option.some(42))),
+    ).toEqual(option.some(42));
+    expect(await asyncOption.none().xor(option.none())).toEqual(option.none());
+  });
+
+  test("AsyncOption.prototype.transpose()", async () => {
+    expect(await asyncOption.none().transpose()).toEqual(
+      result.ok(option.none()),
+    );
+    expect(await asyncOption.some(result.ok("foo")).transpose()).toEqual(
+      result.ok(option.some("foo")),
+    );
+    expect(await asyncOption.some(result.err("bar")).transpose()).toEqual(
+      result.err("bar"),
+    );
+  });
+
+  test("AsyncOption.prototype.equalsSome()", async () => {
+    expect(await asyncOption.some(42).equalsSome(42)).toBe(true);
+    expect(await asyncOption.some(42).equalsSome(5)).toBe(false);
+    expect(await asyncOption.some({}).equalsSome({})).toBe(false);
+    expect(await asyncOption.none<number>().equalsSome(42)).toBe(false);
+  });
+
+  test("AsyncOption.prototype.someSatisfies()", async () => {
+    expect(
+      await asyncOption.some("foo").someSatisfies(v => v.length === 3),
+    ).toBe(true);
+    expect(
+      await asyncOption.some("foo").someSatisfies(async v => v.length === 500),
+    ).toBe(false);
+    expect(await asyncOption.none().someSatisfies(() => true)).toBe(false);
+  });
+}
@@ -0,0 +1,349 @@
+import { AsyncResult, option, result } from "../src";
+
+export interface AsyncResultFactory {
+  ok<T, E = never>(value: T): AsyncResult<T, E>;
+  err<E, T = never>(error: E): AsyncResult<T, E>;
+}
+
+/**
+ * Can be used to test any implementation of `AsyncResult`—simply
+ * pass in a factory that creates instances of the implementation
+ * you want to test.
+ */
+export function testAsyncResultImpl(asyncResult: AsyncResultFactory) {
+  test("AsyncResult is awaitable", async () => {
+    expect(await asyncResult.ok("foo")).toEqual(result.ok("foo"));
+    expect(await asyncResult.err("bar")).toEqual(result.err("bar"));
+  });
+
+  test("AsyncResult.prototype.match() calls correct callback", async () => {
+    function getMatcher() {
+      return {
+        err: jest.fn(error => -error),
+        ok: jest.fn(x => Promise.resolve(x.toUpperCase())),
+      };
+    }
+
+    const matcher1 = getMatcher();
+    expect(await asyncResult.ok("foo").match(matcher1)).toBe("FOO");
+    expect(matcher1.ok.mock.calls).toEqual([["foo"]]);
+    expect(matcher1.err.mock.calls.length).toBe(0);
+
+    const matcher2 = getMatcher();
+    expect(await asyncResult.err(9).match(matcher2)).toBe(-9);
+    expect(matcher2.err.mock.calls).toEqual([[9]]);
+    expect(matcher2.ok.mock.calls.length).toBe(0);
+  });
+
+  test("AsyncResult.prototype.ok()", async () => {
+    expect(await asyncResult.ok(42).ok()).toEqual(option.some(42));
+    expect(await asyncResult.err("bar").ok()).toEqual(option.none());
+  });
+
+  test("AsyncResult.prototype.err()", async () => {
+    expect(await asyncResult.ok("foo").err()).toEqual(option.none());
+    expect(await asyncResult.err("bar").err()).toEqual(option.some("bar"));
+  });
+
+  test("AsyncResult.prototype.isOk()", async () => {
+    expect(await asyncResult.ok(42).isOk()).toBe(true);
+    expect(await asyncResult.err("bar").isOk()).toBe(false);
+  });
+
+  test("AsyncResult.prototype.isErr()", async () => {
+    expect(await asyncResult.ok(42).isErr()).toBe(false);
+    expect(await asyncResult.err("bar").isErr()).toBe(true);
+  });
+
+  test("AsyncResult.prototype.map() only calls callback if `this` is ok", async () => {
+    const mapper1 = jest.fn(x => x * 3);
+    expect(await asyncResult.ok(4).map(mapper1)).toEqual(result.ok(12));
+    expect(mapper1.mock.calls).toEqual([[4]]);
+
+    const mapper2 = jest.fn(x => x * 3);
+    expect(await asyncResult.err("bar").map(mapper2)).toEqual(
+      result.err("bar"),
+    );
+    expect(mapper2.mock.calls.length).toBe(0);
+  });
+
+  test("AsyncResult.prototype.map() accepts async callbacks", async () => {
+    expect(await asyncResult.ok(4).map(x => Promise.resolve(x * 3))).toEqual(
+      result.ok(12),
+    );
+  });
+
+  test("AsyncResult.prototype.mapErr() only calls callback if `this` is err", async () => {
+    const mapper1 = jest.fn(x => x * 3);
+    expect(await asyncResult.err(4).mapErr(mapper1)).toEqual(result.err(12));
+    expect(mapper1.mock.calls).toEqual([[4]]);
+
+    const mapper2 = jest.fn(x => Promise.resolve(x * 3));
+    expect(await asyncResult.ok("foo").mapErr(mapper2)).toEqual(
+      result.ok("foo"),
+    );
+    expect(mapper2.mock.calls.length).toBe(0);
+  });
+
+  test("AsyncResult.prototype.ifOk() only calls callback if `this` is ok", async () => {
+    const callback1 = jest.fn(() => {});
+    await asyncResult.ok("foo").ifOk(callback1);
+    expect(callback1.mock.calls).toEqual([["foo"]]);
+
+    const callback2 = jest.fn(() => {});
+    await asyncResult.err("bar").ifOk(callback2);
+    expect(callback2.mock.calls.length).toBe(0);
+  });
+
+  test("AsyncResult.prototype.ifErr() only calls callback if `this` is err", async () => {
+    const callback1 = jest.fn(() => {});
+    await asyncResult.ok("foo").ifErr(callback1);
+    expect(callback1.mock.calls.length).toBe(0);
+
+    const callback2 = jest.fn(() => {});
+    await asyncResult.err("bar").ifErr(callback2);
+    expect(callback2.mock.calls).toEqual([["bar"]]);
+  });
+
+  test("AsyncResult.prototype.unwrap()", async () => {
+    expect(await asyncResult.ok("foo").unwrap()).toBe("foo");
+
+    let error: Error | undefined;
+    try {
+      await asyncResult.err("bar").unwrap();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).not.toBe(undefined);
+    expect(error!.name).toBe("UnwrapError");
+    expect(error!.message).toBe(
+      'called `Result::unwrap()` on an `Err` value: "bar"',
+    );
+  });
+
+  test("AsyncResult.prototype.safeUnwrap()", async () => {
+    const res: AsyncResult<string, never> = asyncResult.ok("foo");
+    expect(await res.safeUnwrap()).toBe("foo");
+  });
+
+  test("AsyncResult.prototype.safeUnwrapErr()", async () => {
+    const res: AsyncResult<never, string> = asyncResult.err("bar");
+    expect(await res.safeUnwrapErr()).toBe("bar");
+  });
+
+  test("AsyncResult.prototype.unwrapErr()", async () => {
+    expect(await asyncResult.err("bar").unwrapErr()).toBe("bar");
+
+    let error: Error | undefined;
+    try {
+      await asyncResult.ok("foo").unwrapErr();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).not.toBe(undefined);
+    expect(error!.name).toBe("UnwrapError");
+    expect(error!.message).toBe(
+      'called `Result::unwrapErr()` on an `Ok` value: "foo"',
+    );
+  });
+
+  test("AsyncResult.prototype.unwrapOrThrowErr()", async () => {
+    expect(await asyncResult.ok("foo").unwrapOrThrowErr()).toBe("foo");
+    await expect(
+      asyncResult.err(new Error("bar")).unwrapOrThrowErr(),
+    ).rejects.toThrow("bar");
+  });
+
+  test("AsyncResult.prototype.unwrapErrOrThrowOk()", async () => {
+    expect(await asyncResult.err("bar").unwrapErrOrThrowOk()).toBe("bar");
+    await expect(
+      asyncResult.ok(new Error("foo")).unwrapErrOrThrowOk(),
+    ).rejects.toThrow("foo");
+  });
+
+  test("AsyncResult.prototype.expect()", async () => {
+    expect(await asyncResult.ok("foo").expect("Oh noes!")).toBe("foo");
+    await expect(asyncResult.err("bar").expect("Oh noes!")).rejects.toThrow(
+      "Oh noes!",
+    );
+
+    const providedError = new Error("Oh noes!");
+    let actualError: Error | undefined;
+    try {
+      await asyncResult.err("bar").expect(providedError);
+    } catch (e) {
+      actualError = e;
+    }
+    expect(actualError).toBe(providedError);
+  });
+
+  test("AsyncResult.prototype.expectErr()", async () => {
+    expect(await asyncResult.err("bar").expectErr("Oh noes!")).toBe("bar");
+    await expect(asyncResult.ok("foo").expectErr("Oh noes!")).rejects.toThrow(
+      "Oh noes!",
+    );
+  });
+
+  test("AsyncResult.prototype.unwrapOr()", async () => {
+    expect(await asyncResult.ok(42).unwrapOr(-19)).toBe(42);
+    expect(await asyncResult.err("bar").unwrapOr(-19)).toBe(-19);
+  });
+
+  test("AsyncResult.prototype.unwrapOrElse() only calls the provided thunk if `this` is err", async () => {
+    const thunk1 = jest.fn(() => Promise.resolve(-19));
+    expect(await asyncResult.ok(42).unwrapOrElse(thunk1)).toBe(42);
+    expect(thunk1.mock.calls.length).toBe(0);
+
+    const thunk2 = jest.fn(() => Promise.resolve(-19));
+    expect(await asyncResult.err("bar").unwrapOrElse(thunk2)).toBe(-19);
+    expect(thunk2.mock.calls).toEqual([["bar"]]);
+  });
+
+  test("AsyncResult.prototype.and()", async () => {
+    expect(await asyncResult.ok("foo").and(result.ok(42))).toEqual(
+      result.ok(42),
+    );
+    expect(
+      await asyncResult.ok("foo").and(Promise.resolve(result.err("bar"))),
+    ).toEqual(result.err("bar"));
+    expect(await asyncResult.err("bar").and(result.ok(42))).toEqual(
+      result.err("bar"),
+    );
+  });
+
+  test("AsyncResult.prototype.andThen() only calls the provided flat mapper if `this` is ok", async () => {
+    const firstChar = jest.fn(async (s: string) =>
+      s.length === 0
+        ? result.err<Error, string>(new Error("Empty string"))
+        : result.ok<string, Error>(s.charAt(0)),
+    );
+
+    expect(
+      await asyncResult.err(new Error("No string")).andThen(firstChar),
+    ).toEqual(result.err(new Error("No string")));
+    expect(firstChar.mock.calls.length).toBe(0);
+    expect(await asyncResult.ok("foo").andThen(firstChar)).toEqual(
+      result.ok("f"),
+    );
+    expect(await asyncResult.ok("").andThen(firstChar)).toEqual(
+      result.err(new Error("Empty string")),
+    );
+    expect(firstChar.mock.calls).toEqual([["foo"], [""]]);
+  });
+
+  test("AsyncResult.prototype.andThen() accepts callbacks returning an AsyncResult", async () => {
+    expect(await asyncResult.ok(2).andThen(x => asyncResult.ok(x + 1))).toEqual(
+      result.ok(3),
+    );
+  });
+
+  test("AsyncResult.prototype.or()", async () => {
+    expect(await asyncResult.ok("foo").or(result.ok(42))).toEqual(
+      result.ok("foo"),
+    );
+    expect(await asyncResult.err("bar").or(result.ok(42))).toEqual(
+      result.ok(42),
+    );
+    expect(
+      await asyncResult.err("bar").or(Promise.resolve(result.err("baz"))),
+    ).toEqual(result.err("baz"));
+  });
+
+  test("AsyncResult.prototype.and() and AsyncResult.prototype.or() handle a rejected argument they ignore", async () => {
+    const unhandled = jest.fn();
+    process.on("unhandledRejection", unhandled);
+    try {
+      expect(
+        await asyncResult.err("bar").and(Promise.reject(new Error("and"))),
+      ).toEqual(result.err("bar"));
+      expect(
+        await asyncResult.ok("foo").or(Promise.reject(new Error("or"))),
+      ).toEqual(result.ok("foo"));
+      await new Promise(resolve => setTimeout(resolve, 0));
+    } finally {
+      process.removeListener("unhandledRejection", unhandled);
+    }
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+
+  test("AsyncResult.prototype.orElse() only calls the provided callback if `this` is err", async () => {
+    const getOk = jest.fn(async () => result.ok(42));
+
+    expect(await asyncResult.ok("foo").orElse(getOk)).toEqual(result.ok("foo"));
+    expect(getOk.mock.calls.length).toBe(0);
+
+    expect(await asyncResult.err("bar").orElse(getOk)).toEqual(result.ok(42));
+    expect(getOk.mock.calls).toEqual([["bar"]]);
+  });
+
+  test("AsyncResult.prototype.array()", async () => {
+    expect(await asyncResult.err("bar").array()).toEqual([]);
+    expect(await asyncResult.ok("foo").array()).toEqual(["foo"]);
+  });
+
+  test("AsyncResult.prototype.transpose()", async () => {
+    expect(await asyncResult.ok(option.none()).transpose()).toEqual(
+      option.none(),
+    );
+    expect(await asyncResult.ok(option.some("foo")).transpose()).toEqual(
+      option.some(result.ok("foo")),
+    );
+    expect(await asyncResult.err("bar").transpose()).toEqual(
+      option.some(result.err("bar")),
+    );
+  });
+
+  test("AsyncResult.prototype.okSatisfies()", async () => {
+    expect(await asyncResult.ok(9).okSatisfies(x => x > 0)).toBe(true);
+    expect(await asyncResult.ok(-9).okSatisfies(async x => x > 0)).toBe(false);
+    expect(await asyncResult.err("bar").okSatisfies(() => true)).toBe(false);
+  });
+
+  test("AsyncResult.prototype.errSatisfies()", async () => {
+    expect(await asyncResult.err(9).errSatisfies(x => x > 0)).toBe(true);
+    expect(await asyncResult.err(-9).errSatisfies(async x => x > 0)).toBe(
+      false,
+    );
+    expect(await asyncResult.ok("foo").errSatisfies(() => true)).toBe(false);
+  });
+
+  test("AsyncResult.prototype.reverse()", async () => {
+    expect(await asyncResult.ok("foo").reverse()).toEqual(result.err("foo"));
+    expect(await asyncResult.err("bar").reverse()).toEqual(result.ok("bar"));
+  });
+
+  test("AsyncResult.prototype.bind()", async () => {
+    const okIterator = asyncResult.ok("foo").bind();
+    expect(await okIterator.next()).toEqual({
+      done: false,
+      value: ["ok", "foo"],
+    });
+    expect(await okIterator.next()).toEqual({ done: true, value: "foo" });
+
+    const errIterator = asyncResult.err("bar").bind();
+    expect(await errIterator.next()).toEqual({
+      done: false,
+      value: ["err", "bar"],
+    });
+  });
+
+  test("AsyncResult.prototype[Symbol.asyncIterator]() supports for await...of", async () => {
+    const values: string[] = [];
+    for await (const value of asyncResult.ok("foo")) {
+      values.push(value);
+    }
+    for await (const value of asyncResult.err<string, string>("bar")) {
+      values.push(value);
+    }
+    expect(values).toEqual(["foo"]);
+  });
+
+  test("AsyncResult rejects if a callback throws", async () => {
+    const error = new Error("Oh noes!");
+    await expect(
+      asyncResult.ok(1).map(() => {
+        throw error;
+      }),
+    ).rejects.toBe(error);
+  });
+}
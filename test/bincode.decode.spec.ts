@@ -0,0 +1,119 @@
+import { Option, Result, bincode, option, result } from "../src";
+
+function bytes(...values: number[]): Uint8Array {
+  return Uint8Array.from(values);
+}
+
+test("bincode.decode() round-trips bincode.encode()", () => {
+  const codec = bincode.vec(
+    bincode.struct({
+      id: bincode.u64(),
+      name: bincode.string(),
+      nickname: bincode.option(bincode.string()),
+      score: bincode.result(bincode.f64(), bincode.i8()),
+      tags: bincode.bytes(),
+      active: bincode.bool(),
+    }),
+  );
+  const value = [
+    {
+      id: BigInt("18446744073709551615"),
+      name: "Zoë 😀",
+      nickname: option.none<string>(),
+      score: result.ok<number, number>(0.5),
+      tags: bytes(1, 2, 3),
+      active: true,
+    },
+    {
+      id: BigInt(0),
+      name: "",
+      nickname: option.some("z"),
+      score: result.err<number, number>(-128),
+      tags: bytes(),
+      active: false,
+    },
+  ];
+  expect(bincode.decode(bincode.encode(value, codec), codec)).toEqual(
+    result.ok(value),
+  );
+});
+
+test("bincode.decode() revives nested options and results", () => {
+  const codec = bincode.option(
+    bincode.result(bincode.option(bincode.u8()), bincode.u16()),
+  );
+  const expected: Result<
+    Option<Result<Option<number>, number>>,
+    unknown
+  > = result.ok(option.some(result.ok(option.some(9))));
+  expect(bincode.decode(bytes(1, 0, 0, 0, 0, 1, 9), codec)).toEqual(expected);
+});
+
+test("bincode.decode() reports unexpected ends", () => {
+  expect(bincode.decode(bytes(1, 0), bincode.u32())).toEqual(
+    result.err({ kind: "unexpectedEnd", offset: 2 }),
+  );
+  expect(
+    bincode.decode(bytes(5, 0, 0, 0, 0, 0, 0, 0, 0x68), bincode.string()),
+  ).toEqual(result.err({ kind: "unexpectedEnd", offset: 9 }));
+  expect(bincode.decode(bytes(), bincode.option(bincode.u8()))).toEqual(
+    result.err({ kind: "unexpectedEnd", offset: 0 }),
+  );
+});
+
+test("bincode.decode() reports invalid tags", () => {
+  expect(bincode.decode(bytes(2), bincode.option(bincode.u8()))).toEqual(
+    result.err({ kind: "invalidTag", offset: 0, tag: 2 }),
+  );
+  expect(
+    bincode.decode(
+      bytes(2, 0, 0, 0, 1),
+      bincode.result(bincode.u8(), bincode.u8()),
+    ),
+  ).toEqual(result.err({ kind: "invalidTag", offset: 0, tag: 2 }));
+});
+
+test("bincode.decode() reports invalid booleans", () => {
+  expect(bincode.decode(bytes(1, 2), bincode.vec(bincode.bool()))).toEqual(
+    result.err({ kind: "unexpectedEnd", offset: 2 }),
+  );
+  expect(bincode.decode(bytes(2), bincode.bool())).toEqual(
+    result.err({ kind: "invalidBool", offset: 0, byte: 2 }),
+  );
+});
+
+test("bincode.decode() reports invalid UTF-8", () => {
+  [[0xff], [0xc3], [0xc0, 0x80], [0xed, 0xa0, 0x80]].forEach(invalid => {
+    expect(
+      bincode.decode(
+        bytes(invalid.length, 0, 0, 0, 0, 0, 0, 0, ...invalid),
+        bincode.string(),
+      ),
+    ).toEqual(result.err({ kind: "invalidUtf8", offset: 0 }));
+  });
+});
+
+test("bincode.decode() reports lengths that do not fit in a number", () => {
+  expect(
+    bincode.decode(bytes(0, 0, 0, 0, 0, 0, 0, 1), bincode.vec(bincode.u8())),
+  ).toEqual(
+    result.err({
+      kind: "lengthOverflow",
+      offset: 0,
+      length: BigInt("0x0100000000000000"),
+    }),
+  );
+});
+
+test("bincode.decode() reports trailing bytes", () => {
+  expect(bincode.decode(bytes(1, 2), bincode.u8())).toEqual(
+    result.err({ kind: "trailingBytes", offset: 1 }),
+  );
+});
+
+test("bincode.decode() reads from a subarray", () => {
+  const buffer = bytes(0xaa, 0x34, 0x12, 0xbb);
+  expect(bincode.decode(buffer.subarray(1, 3), bincode.u16())).toEqual(
+    result.ok(0x1234),
+  );
+});
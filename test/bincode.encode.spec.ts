@@ -0,0 +1,80 @@
+import { bincode, option, result } from "../src";
+
+function bytes(...values: number[]): Uint8Array {
+  return Uint8Array.from(values);
+}
+
+const LENGTH_2 = [2, 0, 0, 0, 0, 0, 0, 0];
+
+test("bincode.encode() writes integers as little-endian fixed-width bytes", () => {
+  expect(bincode.encode(0xff, bincode.u8())).toEqual(bytes(0xff));
+  expect(bincode.encode(0x1234, bincode.u16())).toEqual(bytes(0x34, 0x12));
+  expect(bincode.encode(1, bincode.u32())).toEqual(bytes(1, 0, 0, 0));
+  expect(bincode.encode(-1, bincode.i16())).toEqual(bytes(0xff, 0xff));
+  expect(bincode.encode(-2, bincode.i32())).toEqual(
+    bytes(0xfe, 0xff, 0xff, 0xff),
+  );
+  expect(bincode.encode(BigInt(258), bincode.u64())).toEqual(
+    bytes(2, 1, 0, 0, 0, 0, 0, 0),
+  );
+  expect(bincode.encode(BigInt(-1), bincode.i64())).toEqual(
+    bytes(0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff),
+  );
+});
+
+test("bincode.encode() throws if an integer is out of range", () => {
+  expect(() => bincode.encode(256, bincode.u8())).toThrow(RangeError);
+  expect(() => bincode.encode(-1, bincode.u32())).toThrow(RangeError);
+  expect(() => bincode.encode(1.5, bincode.i32())).toThrow(RangeError);
+  expect(() => bincode.encode(BigInt(-1), bincode.u64())).toThrow(RangeError);
+});
+
+test("bincode.encode() writes floats and booleans", () => {
+  expect(bincode.encode(1, bincode.f32())).toEqual(bytes(0, 0, 0x80, 0x3f));
+  expect(bincode.encode(1, bincode.f64())).toEqual(
+    bytes(0, 0, 0, 0, 0, 0, 0xf0, 0x3f),
+  );
+  expect(bincode.encode(true, bincode.bool())).toEqual(bytes(1));
+  expect(bincode.encode(false, bincode.bool())).toEqual(bytes(0));
+});
+
+test("bincode.encode() writes strings, bytes and vectors with a u64 length prefix", () => {
+  expect(bincode.encode("hi", bincode.string())).toEqual(
+    bytes(...LENGTH_2, 0x68, 0x69),
+  );
+  expect(bincode.encode("é", bincode.string())).toEqual(
+    bytes(...LENGTH_2, 0xc3, 0xa9),
+  );
+  expect(bincode.encode("😀", bincode.string())).toEqual(
+    bytes(4, 0, 0, 0, 0, 0, 0, 0, 0xf0, 0x9f, 0x98, 0x80),
+  );
+  expect(bincode.encode(bytes(7, 8), bincode.bytes())).toEqual(
+    bytes(...LENGTH_2, 7, 8),
+  );
+  expect(bincode.encode([1, 2], bincode.vec(bincode.u16()))).toEqual(
+    bytes(...LENGTH_2, 1, 0, 2, 0),
+  );
+});
+
+test("bincode.encode() writes struct fields in order", () => {
+  const user = bincode.struct({ id: bincode.u8(), name: bincode.string() });
+  expect(bincode.encode({ id: 3, name: "hi" }, user)).toEqual(
+    bytes(3, ...LENGTH_2, 0x68, 0x69),
+  );
+});
+
+test("bincode.encode() writes options with a u8 tag", () => {
+  const codec = bincode.option(bincode.u32());
+  expect(bincode.encode(option.none(), codec)).toEqual(bytes(0));
+  expect(bincode.encode(option.some(5), codec)).toEqual(bytes(1, 5, 0, 0, 0));
+});
+
+test("bincode.encode() writes results with a u32 variant index", () => {
+  const codec = bincode.result(bincode.u32(), bincode.string());
+  expect(bincode.encode(result.ok(7), codec)).toEqual(
+    bytes(0, 0, 0, 0, 7, 0, 0, 0),
+  );
+  expect(bincode.encode(result.err("hi"), codec)).toEqual(
+    bytes(1, 0, 0, 0, ...LENGTH_2, 0x68, 0x69),
+  );
+});
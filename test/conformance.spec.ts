@@ -0,0 +1,109 @@
+import {
+  ConformanceCheck,
+  OptionFactory,
+  ResultFactory,
+  conformance,
+  option,
+  result,
+} from "../src";
+
+function find(checks: ConformanceCheck[], name: string): ConformanceCheck {
+  const found = checks.find(check => check.name === name);
+  if (found === undefined) {
+    throw new Error(`No check named ${name}`);
+  }
+  return found;
+}
+
+test("conformance.option() passes the default implementation", () => {
+  conformance.option(option, { seed: 7, runs: 20 }).forEach(check => {
+    expect(check.run()).toBeOk();
+  });
+});
+
+test("conformance.result() passes the default implementation", () => {
+  conformance.result(result, { seed: 7, runs: 20 }).forEach(check => {
+    expect(check.run()).toBeOk();
+  });
+});
+
+test("conformance.option() reports functor law violations with a counterexample", () => {
+  const brokenMap: OptionFactory = {
+    some: value => Object.assign(option.some(value), { map: option.none }),
+    none: option.none,
+  };
+  const check = find(
+    conformance.option(brokenMap),
+    "Option: map() preserves identity",
+  );
+  expect(check.run()).toBeErrMatching(
+    /^Option: map\(\) preserves identity failed on run \d+ of 100 \(seed 42\) for the input \(Some\(.*\)\)\.$/,
+  );
+});
+
+test("conformance.option() reports thunks that are called eagerly", () => {
+  const eager: OptionFactory = {
+    some: value =>
+      Object.assign(option.some(value), {
+        unwrapOrElse: (thunk: () => unknown) => (thunk(), value),
+      }),
+    none: option.none,
+  };
+  const checks = conformance.option(eager);
+  expect(
+    find(
+      checks,
+      "Option: methods that take callbacks call them only when needed, and at most once",
+    ).run(),
+  ).toBeErr();
+  expect(find(checks, "Option: andThen() is associative").run()).toBeOk();
+});
+
+test("conformance.result() reports monad law violations", () => {
+  const brokenAndThen: ResultFactory = {
+    ok: value =>
+      Object.assign(result.ok(value), {
+        andThen: () => result.err("oops"),
+      }),
+    err: result.err,
+  };
+  expect(
+    find(
+      conformance.result(brokenAndThen),
+      "Result: ok() is a left identity of andThen(), and err() of orElse()",
+    ).run(),
+  ).toBeErrMatching("failed on run 1 of 100");
+});
+
+test("conformance checks report exceptions thrown by the implementation", () => {
+  const throwing: ResultFactory = {
+    ok: value =>
+      Object.assign(result.ok(value), {
+        isOk: () => {
+          throw new Error("boom");
+        },
+      }),
+    err: result.err,
+  };
+  expect(
+    find(
+      conformance.result(throwing),
+      "Result: isOk() and isErr() agree with match()",
+    ).run(),
+  ).toBeErrMatching(/throwing Error \{ message: "boom" \}\.$/);
+});
+
+test("conformance checks are reproducible from the seed", () => {
+  const brokenMap: OptionFactory = {
+    some: value => Object.assign(option.some(value), { map: option.none }),
+    none: option.none,
+  };
+  const run = (seed: number) =>
+    find(
+      conformance.option(brokenMap, { seed, runs: 5 }),
+      "Option: map() preserves identity",
+    ).run();
+  expect(run(123)).toEqual(run(123));
+  expect(run(123)).toBeErrMatching("(seed 123)");
+  expect(run(123)).toBeErrMatching(" of 5 ");
+});
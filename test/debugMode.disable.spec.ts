@@ -0,0 +1,38 @@
+import { Result, debugMode, option, result } from "../src";
+import OptionImpl from "../src/private/OptionImpl";
+import ResultImpl from "../src/private/ResultImpl";
+
+afterEach(() => {
+  debugMode.disable();
+});
+
+test("debugMode.disable() restores the unchecked methods", () => {
+  const optionMatch = OptionImpl.prototype.match;
+  const resultSafeUnwrap = ResultImpl.prototype.safeUnwrap;
+  const some = OptionImpl.some;
+  debugMode.enable();
+  expect(OptionImpl.prototype.match).not.toBe(optionMatch);
+  debugMode.disable();
+  expect(OptionImpl.prototype.match).toBe(optionMatch);
+  expect(ResultImpl.prototype.safeUnwrap).toBe(resultSafeUnwrap);
+  expect(OptionImpl.some).toBe(some);
+
+  const escaped = (result.err("bar") as unknown) as Result<number, never>;
+  expect(escaped.safeUnwrap()).toBeUndefined();
+  expect(Object.isFrozen(option.some(1))).toBe(false);
+});
+
+test("debugMode.disable() leaves instances created in debug mode frozen", () => {
+  debugMode.enable();
+  const opt = option.none<number>();
+  debugMode.disable();
+  expect(Object.isFrozen(opt)).toBe(true);
+});
+
+test("debugMode.enable() is idempotent", () => {
+  const optionMatch = OptionImpl.prototype.match;
+  debugMode.enable();
+  debugMode.enable();
+  debugMode.disable();
+  expect(OptionImpl.prototype.match).toBe(optionMatch);
+});
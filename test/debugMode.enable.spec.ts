@@ -0,0 +1,96 @@
+import { Option, Result, debugMode, option, panicking, result } from "../src";
+
+beforeEach(() => {
+  debugMode.enable();
+});
+
+afterEach(() => {
+  debugMode.disable();
+  panicking.takeHook();
+});
+
+test("debugMode.enable() freezes new options and results", () => {
+  expect(Object.isFrozen(option.some(1))).toBe(true);
+  expect(Object.isFrozen(option.none())).toBe(true);
+  expect(Object.isFrozen(result.ok(1))).toBe(true);
+  expect(Object.isFrozen(result.err("bar"))).toBe(true);
+  expect(Object.isFrozen(option.some(1).map(n => n + 1))).toBe(true);
+  expect(Object.isFrozen(result.ok(1).ok())).toBe(true);
+});
+
+test("debugMode.enable() makes safeUnwrap() and intoOk() panic on err", () => {
+  const escaped = (result.err("bar") as unknown) as Result<number, never>;
+  expect(() => escaped.safeUnwrap()).toThrow(
+    'called `Result::safeUnwrap()` on an `Err` value: "bar"',
+  );
+  expect(() => escaped.intoOk()).toThrow(
+    'called `Result::intoOk()` on an `Err` value: "bar"',
+  );
+  expect(result.ok<number, never>(1).safeUnwrap()).toBe(1);
+  expect(result.ok<number, never>(1).intoOk()).toBe(1);
+});
+
+test("debugMode.enable() makes safeUnwrapErr() and intoErr() panic on ok", () => {
+  const escaped = (result.ok(1) as unknown) as Result<never, string>;
+  expect(() => escaped.safeUnwrapErr()).toThrow(
+    "called `Result::safeUnwrapErr()` on an `Ok` value: 1",
+  );
+  expect(() => escaped.intoErr()).toThrow(
+    "called `Result::intoErr()` on an `Ok` value: 1",
+  );
+  expect(result.err<string, never>("bar").intoErr()).toBe("bar");
+});
+
+test("debugMode.enable() makes flatten() panic if the inner value has the wrong type", () => {
+  const notAnOption = option.some<any>(1) as Option<Option<number>>;
+  expect(() => notAnOption.flatten()).toThrow(
+    "called `Option::flatten()` on a `Some` value that is not an `Option`: 1",
+  );
+  const notAResult = result.ok<any, string>(option.some(1)) as Result<
+    Result<number, string>,
+    string
+  >;
+  expect(() => notAResult.flatten()).toThrow(
+    "called `Result::flatten()` on an `Ok` value that is not a `Result`: Some(1)",
+  );
+  expect(option.some(option.some(1)).flatten()).toEqual(option.some(1));
+  expect(result.ok(result.ok(1)).flatten()).toEqual(result.ok(1));
+  expect(option.none<Option<number>>().flatten()).toEqual(option.none());
+});
+
+test("debugMode.enable() makes transpose() panic if the inner value has the wrong type", () => {
+  const notAResult = option.some<any>("foo") as Option<Result<number, string>>;
+  expect(() => notAResult.transpose()).toThrow(
+    'called `Option::transpose()` on a `Some` value that is not a `Result`: "foo"',
+  );
+  const notAnOption = result.ok<any, string>(result.ok(1)) as Result<
+    Option<number>,
+    string
+  >;
+  expect(() => notAnOption.transpose()).toThrow(
+    "called `Result::transpose()` on an `Ok` value that is not an `Option`: Ok(1)",
+  );
+  expect(option.some(result.ok(1)).transpose()).toEqual(
+    result.ok(option.some(1)),
+  );
+  expect(result.err<string, Option<number>>("bar").transpose()).toEqual(
+    option.some(result.err("bar")),
+  );
+});
+
+test("debugMode.enable() makes match() panic if an arm is not a function", () => {
+  expect(() => option.some(1).match({ none: () => 0, some: 1 } as any)).toThrow(
+    "called `Option::match()` with a matcher whose `none` and `some` are not both functions: { none: [Function: none], some: 1 }",
+  );
+  expect(() => result.ok(1).match(undefined as any)).toThrow(
+    "called `Result::match()` with a matcher whose `ok` and `err` are not both functions: undefined",
+  );
+  expect(result.err("bar").match({ ok: () => 0, err: e => e })).toBe("bar");
+});
+
+test("debug mode panics are reported to the panic hook", () => {
+  const escaped = (result.err("bar") as unknown) as Result<number, never>;
+  const caught = panicking.catchUnwind(() => escaped.safeUnwrap());
+  expect(caught.unwrapErr().method).toBe("Result.prototype.safeUnwrap");
+  expect(caught.unwrapErr().payload).toBe("bar");
+});
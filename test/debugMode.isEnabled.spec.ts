@@ -0,0 +1,13 @@
+import { debugMode } from "../src";
+
+afterEach(() => {
+  debugMode.disable();
+});
+
+test("debugMode.isEnabled() reports whether debug mode is enabled", () => {
+  expect(debugMode.isEnabled()).toBe(false);
+  debugMode.enable();
+  expect(debugMode.isEnabled()).toBe(true);
+  debugMode.disable();
+  expect(debugMode.isEnabled()).toBe(false);
+});
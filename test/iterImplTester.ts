@@ -0,0 +1,190 @@
+import { Iter, option, result } from "../src";
+
+export interface IterFactory {
+  from<T>(iterable: Iterable<T>): Iter<T>;
+}
+
+/**
+ * Can be used to test any implementation of `Iter`—simply
+ * pass in a factory that creates instances of the implementation
+ * you want to test.
+ */
+export function testIterImpl(iter: IterFactory) {
+  function* naturals() {
+    for (let n = 0; ; n++) {
+      yield n;
+    }
+  }
+
+  test("Iter.prototype.next()", () => {
+    const it = iter.from(["foo", "bar"]);
+    expect(it.next()).toEqual(option.some("foo"));
+    expect(it.next()).toEqual(option.some("bar"));
+    expect(it.next()).toEqual(option.none());
+    expect(it.next()).toEqual(option.none());
+  });
+
+  test("Iter.prototype.map() is lazy", () => {
+    const mapper = jest.fn((n: number) => n * 2);
+    const it = iter.from(naturals()).map(mapper);
+    expect(mapper).not.toHaveBeenCalled();
+    expect(it.next()).toEqual(option.some(0));
+    expect(it.next()).toEqual(option.some(2));
+    expect(mapper).toHaveBeenCalledTimes(2);
+  });
+
+  test("Iter.prototype.filter()", () => {
+    expect(
+      iter
+        .from([1, 2, 3, 4, 5])
+        .filter(n => n % 2 === 1)
+        .toArray(),
+    ).toEqual([1, 3, 5]);
+  });
+
+  test("Iter.prototype.filterMap()", () => {
+    expect(
+      iter
+        .from(["1", "foo", "3"])
+        .filterMap(s => (isNaN(+s) ? option.none() : option.some(+s)))
+        .toArray(),
+    ).toEqual([1, 3]);
+  });
+
+  test("Iter.prototype.findMap() stops at the first some", () => {
+    const it = iter.from([1, 2, 3, 4]);
+    expect(
+      it.findMap(n => (n > 1 ? option.some(n * 10) : option.none())),
+    ).toEqual(option.some(20));
+    expect(it.next()).toEqual(option.some(3));
+
+    expect(iter.from([1, 2]).findMap(() => option.none())).toEqual(
+      option.none(),
+    );
+  });
+
+  test("Iter.prototype.takeWhile() stops at the first failing value", () => {
+    expect(
+      iter
+        .from([1, 2, 3, 1])
+        .takeWhile(n => n < 3)
+        .toArray(),
+    ).toEqual([1, 2]);
+    expect(
+      iter
+        .from(naturals())
+        .takeWhile(n => n < 4)
+        .toArray(),
+    ).toEqual([0, 1, 2, 3]);
+  });
+
+  test("Iter.prototype.position()", () => {
+    expect(iter.from(["a", "b", "c"]).position(s => s === "b")).toEqual(
+      option.some(1),
+    );
+    expect(iter.from(["a", "b", "c"]).position(s => s === "d")).toEqual(
+      option.none(),
+    );
+  });
+
+  test("Iter.prototype.nth()", () => {
+    expect(iter.from(naturals()).nth(0)).toEqual(option.some(0));
+    expect(iter.from(naturals()).nth(5)).toEqual(option.some(5));
+    expect(iter.from([1, 2]).nth(2)).toEqual(option.none());
+
+    const it = iter.from([1, 2, 3]);
+    expect(it.nth(1)).toEqual(option.some(2));
+    expect(it.next()).toEqual(option.some(3));
+  });
+
+  test("Iter.prototype.last()", () => {
+    expect(iter.from([1, 2, 3]).last()).toEqual(option.some(3));
+    expect(iter.from([]).last()).toEqual(option.none());
+  });
+
+  test("Iter.prototype.min()", () => {
+    expect(iter.from([3, 1, 2]).min()).toEqual(option.some(1));
+    expect(iter.from(["b", "a", "c"]).min()).toEqual(option.some("a"));
+    expect(iter.from<number>([]).min()).toEqual(option.none());
+  });
+
+  test("Iter.prototype.max()", () => {
+    expect(iter.from([1, 3, 2]).max()).toEqual(option.some(3));
+    expect(iter.from<number>([]).max()).toEqual(option.none());
+  });
+
+  test("Iter.prototype.min() and Iter.prototype.max() use the provided comparator", () => {
+    const words = ["ccc", "a", "bb", "d"];
+    const byLength = (a: string, b: string) => a.length - b.length;
+    expect(iter.from(words).min(byLength)).toEqual(option.some("a"));
+    expect(iter.from(words).max(byLength)).toEqual(option.some("ccc"));
+  });
+
+  test("Iter.prototype.min() returns the first minimum and Iter.prototype.max() returns the last maximum", () => {
+    const pairs: [number, string][] = [
+      [1, "a"],
+      [0, "b"],
+      [1, "c"],
+      [0, "d"],
+    ];
+    const byFirst = (a: [number, string], b: [number, string]) => a[0] - b[0];
+    expect(iter.from(pairs).min(byFirst)).toEqual(option.some([0, "b"]));
+    expect(iter.from(pairs).max(byFirst)).toEqual(option.some([1, "c"]));
+  });
+
+  test("Iter.prototype.tryFold() returns the accumulator if the callback never returns err", () => {
+    expect(
+      iter.from([1, 2, 3]).tryFold(0, (sum, n) => result.ok(sum + n)),
+    ).toEqual(result.ok(6));
+  });
+
+  test("Iter.prototype.tryFold() short-circuits on err", () => {
+    const it = iter.from([1, 2, 3, 4]);
+    expect(
+      it.tryFold(0, (sum, n) =>
+        n === 2 ? result.err("two") : result.ok(sum + n),
+      ),
+    ).toEqual(result.err("two"));
+    expect(it.next()).toEqual(option.some(3));
+  });
+
+  test("Iter.prototype.tryForEach()", () => {
+    const seen: number[] = [];
+    expect(
+      iter.from([1, 2, 3]).tryForEach(n => {
+        seen.push(n);
+        return n < 2 ? result.ok(n) : result.err(`${n} is too big`);
+      }),
+    ).toEqual(result.err("2 is too big"));
+    expect(seen).toEqual([1, 2]);
+
+    expect(iter.from([1, 2, 3]).tryForEach(n => result.ok(n))).toEqual(
+      result.ok(undefined),
+    );
+  });
+
+  test("Iter.prototype.collect()", () => {
+    expect(iter.from([result.ok(1), result.ok(2)]).collect()).toEqual(
+      result.ok([1, 2]),
+    );
+    expect(
+      iter
+        .from(naturals())
+        .map(n => (n < 3 ? result.ok(n) : result.err(n)))
+        .collect(),
+    ).toEqual(result.err(3));
+  });
+
+  test("Iter.prototype.toArray()", () => {
+    expect(iter.from(new Set([1, 2, 3])).toArray()).toEqual([1, 2, 3]);
+  });
+
+  test("Iter.prototype[Symbol.iterator]() supports for...of and spread", () => {
+    const values: number[] = [];
+    for (const n of iter.from(naturals()).takeWhile(n => n < 3)) {
+      values.push(n);
+    }
+    expect(values).toEqual([0, 1, 2]);
+    expect([...iter.from([1, 2]).map(n => n + 1)]).toEqual([2, 3]);
+  });
+}
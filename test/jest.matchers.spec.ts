@@ -0,0 +1,93 @@
+import { option, result } from "../src";
+
+/**
+ * Returns the message of the assertion error thrown by `assertion`,
+ * without colors.
+ */
+function failureMessage(assertion: () => void): string {
+  try {
+    assertion();
+  } catch (e) {
+    return String(e.message).replace(/\u001b\[\d+m/g, "");
+  }
+  throw new Error("Expected the assertion to fail.");
+}
+
+test("toBeSome() and toBeNone()", () => {
+  expect(option.some(undefined)).toBeSome();
+  expect(option.none()).not.toBeSome();
+  expect(option.none()).toBeNone();
+  expect(option.some(1)).not.toBeNone();
+
+  expect(failureMessage(() => expect(option.none()).toBeSome())).toContain(
+    "Expected: Some(_)\nReceived: None",
+  );
+  expect(failureMessage(() => expect(option.some(1)).not.toBeSome())).toContain(
+    "Expected: not Some(_)\nReceived: Some(1)",
+  );
+});
+
+test("toBeSomeWith()", () => {
+  expect(option.some({ list: [1, option.some(2)] })).toBeSomeWith({
+    list: [1, option.some(2)],
+  });
+  expect(option.some({ a: 1 })).toBeSomeWith(expect.objectContaining({ a: 1 }));
+  expect(option.some(1)).not.toBeSomeWith(2);
+  expect(option.none()).not.toBeSomeWith(undefined);
+
+  expect(
+    failureMessage(() => expect(option.some({ a: 1 })).toBeSomeWith({ a: 2 })),
+  ).toContain('-   "a": 2,\n+   "a": 1,');
+  expect(failureMessage(() => expect(option.none()).toBeSomeWith(1))).toContain(
+    "Expected: Some(_)\nReceived: None",
+  );
+});
+
+test("toBeOk(), toBeErr(), and toBeOkWith()", () => {
+  expect(result.ok(1)).toBeOk();
+  expect(result.err(1)).toBeErr();
+  expect(result.ok(1)).not.toBeErr();
+  expect(result.ok([1, 2])).toBeOkWith([1, 2]);
+  expect(result.err([1, 2])).not.toBeOkWith([1, 2]);
+
+  expect(failureMessage(() => expect(result.err("boom")).toBeOk())).toContain(
+    'Expected: Ok(_)\nReceived: Err("boom")',
+  );
+  expect(
+    failureMessage(() => expect(result.ok("foo")).toBeOkWith("bar")),
+  ).toContain('Expected value: "bar"\nReceived value: "foo"');
+});
+
+test("toBeErrMatching()", () => {
+  class CustomError extends Error {
+    code = 42;
+  }
+  Object.setPrototypeOf(CustomError.prototype, Error.prototype);
+
+  expect(result.err("file not found")).toBeErrMatching("not found");
+  expect(result.err(new Error("file not found"))).toBeErrMatching(/^file/);
+  expect(result.err(new RangeError("boom"))).toBeErrMatching(RangeError);
+  expect(result.err({ code: 42, message: "boom" })).toBeErrMatching({
+    code: 42,
+  });
+  expect(result.err(new Error("boom"))).not.toBeErrMatching("bang");
+  expect(result.ok("boom")).not.toBeErrMatching("boom");
+
+  expect(
+    failureMessage(() => expect(result.err("boom")).toBeErrMatching(/bang/)),
+  ).toContain('Expected error: /bang/\nReceived error: "boom"');
+  expect(
+    failureMessage(() =>
+      expect(result.err({ code: 1 })).toBeErrMatching({ code: 2 }),
+    ),
+  ).toContain('-   "code": 2,\n+   "code": 1,');
+});
+
+test("matchers reject values of the wrong type", () => {
+  expect(failureMessage(() => expect(42).toBeSome())).toContain(
+    "received value must be an Option",
+  );
+  expect(failureMessage(() => expect(option.some(1)).toBeOk())).toContain(
+    "received value must be a Result",
+  );
+});
@@ -0,0 +1,33 @@
+import { option, result } from "../src";
+import { serializer } from "../src/jest";
+
+test("serializer only handles options and results", () => {
+  expect(serializer.test(option.none())).toBe(true);
+  expect(serializer.test(result.err(1))).toBe(true);
+  expect(serializer.test({ kind: "some", value: 1 })).toBe(false);
+  expect(serializer.test(null)).toBe(false);
+});
+
+test("serializer prints options and results like Rust", () => {
+  expect(option.none()).toMatchInlineSnapshot(`None`);
+  expect(option.some([1, 2])).toMatchInlineSnapshot(`
+    Some(Array [
+      1,
+      2,
+    ])
+  `);
+  expect(result.ok("foo")).toMatchInlineSnapshot(`Ok("foo")`);
+  expect(result.err(null)).toMatchInlineSnapshot(`Err(null)`);
+});
+
+test("snapshots use the serializer", () => {
+  expect(option.some({ a: result.ok(1), b: [option.none()] }))
+    .toMatchInlineSnapshot(`
+    Some(Object {
+      "a": Ok(1),
+      "b": Array [
+        None,
+      ],
+    })
+  `);
+});
@@ -0,0 +1,30 @@
+import { BaseOption, option } from "../src";
+
+test("option.adapt() returns canonical options as-is", () => {
+  const some = option.some(1);
+  expect(option.adapt(some)).toBe(some);
+});
+
+test("option.adapt() converts objects that implement match()", () => {
+  const thirdPartySome: Pick<BaseOption<number>, "match"> = {
+    match: matcher => matcher.some(42),
+  };
+  const thirdPartyNone: Pick<BaseOption<number>, "match"> = {
+    match: matcher => matcher.none(),
+  };
+
+  const adapted = option.adapt(thirdPartySome);
+  expect(option.isOption(adapted)).toBe(true);
+  expect(adapted).toEqual(option.some(42));
+  expect(option.adapt(thirdPartyNone)).toEqual(option.none());
+});
+
+test("option.adapt() converts options from another copy of rusty-ts", () => {
+  jest.resetModules();
+  const otherCopy: typeof import("../src") = require("../src");
+  const canonical = option.some(1);
+  const adapted = option.adapt(otherCopy.option.some(1));
+
+  expect(adapted).toBeInstanceOf(canonical.constructor);
+  expect(adapted.map(n => n + 1)).toEqual(option.some(2));
+});
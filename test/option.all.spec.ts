@@ -1,4 +1,4 @@
-import { option } from "../src";
+import { Option, option } from "../src";
 
 test("option.all()", () => {
   const a = option.some("foo");
@@ -7,9 +7,33 @@ test("option.all()", () => {
   const d = option.some(null);
 
   const abcd = option.all([a, b, c, d]);
-  expect(abcd.isNone()).toBe(true);
+  expect(abcd).toBeNone();
 
   const acd = option.all([a, c, d]);
-  expect(acd.isSome()).toBe(true);
-  expect(acd.unwrap()).toEqual(["foo", 42, null]);
+  expect(acd).toBeSomeWith(["foo", 42, null]);
+});
+
+test("option.all() keeps per-position types beyond eight elements", () => {
+  const all: Option<[
+    number,
+    string,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    boolean,
+  ]> = option.all([
+    option.some(1),
+    option.some("2"),
+    option.some(3),
+    option.some(4),
+    option.some(5),
+    option.some(6),
+    option.some(7),
+    option.some(8),
+    option.some(true),
+  ]);
+  expect(all.unwrap()[8]).toBe(true);
 });
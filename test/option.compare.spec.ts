@@ -0,0 +1,43 @@
+import { option } from "../src";
+
+test("option.compare() sorts options like Rust's Ord", () => {
+  expect(
+    [option.some(3), option.none(), option.some(1), option.some(2)].sort(
+      option.compare,
+    ),
+  ).toEqual([option.none(), option.some(1), option.some(2), option.some(3)]);
+});
+
+test("option.compare() orders values of different types consistently", () => {
+  expect(
+    [
+      option.some<unknown>("a"),
+      option.some<unknown>(1),
+      option.some<unknown>(null),
+      option.some<unknown>([0]),
+      option.some<unknown>(true),
+    ].sort(option.compare),
+  ).toEqual([
+    option.some(null),
+    option.some(true),
+    option.some(1),
+    option.some("a"),
+    option.some([0]),
+  ]);
+});
+
+test("option.compareBy() sorts options with the provided comparator", () => {
+  expect(
+    [
+      option.some("ccc"),
+      option.none(),
+      option.some("a"),
+      option.some("bb"),
+    ].sort(option.compareBy((a: string, b: string) => a.length - b.length)),
+  ).toEqual([
+    option.none(),
+    option.some("a"),
+    option.some("bb"),
+    option.some("ccc"),
+  ]);
+});
@@ -0,0 +1,47 @@
+import { Option, option } from "../src";
+
+test("option.firstSome()", () => {
+  expect(
+    option.firstSome([option.none(), option.some(1), option.some(2)]),
+  ).toEqual(option.some(1));
+  expect(option.firstSome([option.none(), option.none()])).toEqual(
+    option.none(),
+  );
+  expect(option.firstSome([])).toEqual(option.none());
+});
+
+test("option.firstSomeLazy() does not call the thunks after the first some", () => {
+  const thunks = [
+    jest.fn((): Option<number> => option.none()),
+    jest.fn((): Option<number> => option.some(1)),
+    jest.fn((): Option<number> => option.some(2)),
+  ];
+
+  expect(option.firstSomeLazy(thunks)).toEqual(option.some(1));
+  expect(thunks.map(thunk => thunk.mock.calls.length)).toEqual([1, 1, 0]);
+});
+
+test("option.firstSomeAsync() calls the thunks in sequence", async () => {
+  const thunks = [
+    jest.fn(async (): Promise<Option<number>> => option.none()),
+    jest.fn((): Option<number> => option.some(1)),
+    jest.fn(async (): Promise<Option<number>> => option.some(2)),
+  ];
+
+  expect(await option.firstSomeAsync(thunks)).toEqual(option.some(1));
+  expect(thunks.map(thunk => thunk.mock.calls.length)).toEqual([1, 1, 0]);
+  expect(await option.firstSomeAsync([])).toEqual(option.none());
+});
+
+test("option.firstSomeRace()", async () => {
+  expect(
+    await option.firstSomeRace([
+      new Promise<Option<string>>(() => {}),
+      Promise.resolve(option.none<string>()),
+      option.some("fast"),
+    ]),
+  ).toEqual(option.some("fast"));
+  expect(
+    await option.firstSomeRace([Promise.resolve(option.none()), option.none()]),
+  ).toEqual(option.none());
+});
@@ -0,0 +1,27 @@
+import { option } from "../src";
+
+test("option.fromVoidableAsync()", async () => {
+  expect(await option.fromVoidableAsync(Promise.resolve(undefined))).toEqual(
+    option.none(),
+  );
+  expect(await option.fromVoidableAsync(Promise.resolve(null))).toEqual(
+    option.none(),
+  );
+
+  expect(await option.fromVoidableAsync(Promise.resolve(0))).toEqual(
+    option.some(0),
+  );
+  expect(await option.fromVoidableAsync(Promise.resolve("foo"))).toEqual(
+    option.some("foo"),
+  );
+  expect(await option.fromVoidableAsync(Promise.resolve(false))).toEqual(
+    option.some(false),
+  );
+});
+
+test("option.async() accepts an option or a promise of one", async () => {
+  expect(await option.async(option.some(42))).toEqual(option.some(42));
+  expect(await option.async(Promise.resolve(option.none()))).toEqual(
+    option.none(),
+  );
+});
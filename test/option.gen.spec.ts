@@ -0,0 +1,24 @@
+import { option } from "../src";
+
+test("option.gen() returns some if every yielded option is some", () => {
+  const opt = option.gen(function*() {
+    const a = yield* option.some(3).bind();
+    const b = yield* option.fromVoidable("foo".charAt(a - 3)).bind();
+    return b.repeat(a);
+  });
+
+  expect(opt).toEqual(option.some("fff"));
+});
+
+test("option.gen() returns none if any yielded option is none", () => {
+  const afterNone = jest.fn();
+  const opt = option.gen(function*() {
+    const a = yield* option.some(3).bind();
+    const b = yield* option.none<number>().bind();
+    afterNone();
+    return a + b;
+  });
+
+  expect(opt).toEqual(option.none());
+  expect(afterNone.mock.calls.length).toBe(0);
+});
@@ -0,0 +1,30 @@
+import { option, result } from "../src";
+
+test("option.isOption() recognizes options", () => {
+  expect(option.isOption(option.some(1))).toBe(true);
+  expect(option.isOption(option.none())).toBe(true);
+});
+
+test("option.isOption() rejects other values", () => {
+  [
+    undefined,
+    null,
+    42,
+    "some",
+    {},
+    { kind: "some", value: 1 },
+    result.ok(1),
+  ].forEach(value => {
+    expect(option.isOption(value)).toBe(false);
+  });
+});
+
+test("option.isOption() recognizes options from another copy of rusty-ts", () => {
+  jest.resetModules();
+  const otherCopy: typeof import("../src") = require("../src");
+  const foreign = otherCopy.option.some(1);
+
+  expect(otherCopy.option).not.toBe(option);
+  expect(foreign).not.toBeInstanceOf(option.some(1).constructor);
+  expect(option.isOption(foreign)).toBe(true);
+});
@@ -0,0 +1,40 @@
+import { Option, option } from "../src";
+
+test("option.struct() returns some if every property is some", () => {
+  const opt: Option<{ name: string; age: number }> = option.struct({
+    name: option.some("Alice"),
+    age: option.some(42),
+  });
+
+  expect(opt).toEqual(option.some({ name: "Alice", age: 42 }));
+});
+
+test("option.struct() returns none if any property is none", () => {
+  const opt = option.struct({
+    name: option.some("Alice"),
+    age: option.none<number>(),
+  });
+
+  expect(opt).toEqual(option.none());
+});
+
+test("option.allMap()", () => {
+  const some = new Map([
+    ["a", option.some(1)],
+    ["b", option.some(2)],
+  ]);
+  expect(option.allMap(some)).toEqual(
+    option.some(
+      new Map([
+        ["a", 1],
+        ["b", 2],
+      ]),
+    ),
+  );
+
+  const none = new Map([
+    ["a", option.some(1)],
+    ["b", option.none<number>()],
+  ]);
+  expect(option.allMap(none)).toEqual(option.none());
+});
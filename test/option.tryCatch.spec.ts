@@ -0,0 +1,6 @@
+import { option } from "../src";
+
+test("option.tryCatch()", () => {
+  expect(option.tryCatch(() => JSON.parse("42"))).toEqual(option.some(42));
+  expect(option.tryCatch(() => JSON.parse("{"))).toEqual(option.none());
+});
@@ -0,0 +1,25 @@
+import { PanicInfo, UnwrapError, panic, panicking } from "../src";
+
+test("panic() throws an UnwrapError with the provided message", () => {
+  expect(() => panic("Oh noes!")).toThrow(
+    new UnwrapError("Oh noes!", undefined),
+  );
+  expect(() => panic("Oh noes!")).toThrow(UnwrapError);
+});
+
+test("panic() defaults to Rust's message", () => {
+  expect(() => panic()).toThrow("explicit panic");
+});
+
+test("panic() calls the panic hook and can be caught with catchUnwind()", () => {
+  const panics: PanicInfo[] = [];
+  panicking.setHook(info => {
+    panics.push(info);
+  });
+  expect(panicking.catchUnwind(() => panic("Oh noes!"))).toBeErrMatching({
+    method: "panic",
+    message: "Oh noes!",
+  });
+  panicking.takeHook();
+  expect(panics.length).toBe(1);
+});
@@ -0,0 +1,109 @@
+import { UnwrapError, option, panicking, result } from "../src";
+
+test("panicking.catchUnwind() returns ok if the function does not panic", () => {
+  expect(panicking.catchUnwind(() => option.some(42).unwrap())).toBeOkWith(42);
+});
+
+test("panicking.catchUnwind() returns err with the panic info if the function panics", () => {
+  const caught = panicking.catchUnwind(() => result.err("bar").unwrap());
+  expect(caught).toBeErrMatching({
+    method: "Result.prototype.unwrap",
+    payload: "bar",
+    message: 'called `Result::unwrap()` on an `Err` value: "bar"',
+  });
+  expect(caught.isErr() && caught.error.thrown).toBeInstanceOf(UnwrapError);
+});
+
+test("panicking.catchUnwind() still calls the panic hook", () => {
+  const hook = jest.fn();
+  panicking.setHook(hook);
+  panicking.catchUnwind(() => option.none().unwrap());
+  panicking.takeHook();
+  expect(hook).toHaveBeenCalledTimes(1);
+});
+
+test("panicking.catchUnwind() rethrows exceptions that are not panics", () => {
+  const error = new Error("not a panic");
+  expect(() =>
+    panicking.catchUnwind(() => {
+      throw error;
+    }),
+  ).toThrow(error);
+});
+
+test("panicking.catchUnwind() does not mistake a later exception for an earlier panic", () => {
+  expect(() =>
+    panicking.catchUnwind(() => {
+      try {
+        option.none().unwrap();
+      } catch {
+        // Handled.
+      }
+      throw new Error("later");
+    }),
+  ).toThrow("later");
+});
+
+test("panicking.catchUnwind() can be nested", () => {
+  const outer = panicking.catchUnwind(() => {
+    const inner = panicking.catchUnwind(() => option.none().expect("inner"));
+    expect(inner).toBeErrMatching({ message: "inner" });
+    return option.none().expect("outer");
+  });
+  expect(outer).toBeErrMatching({ message: "outer" });
+});
+
+test("panicking.catchUnwind() catches errors thrown by unwrapOrThrowErr()", () => {
+  const error = new Error("boom");
+  const caught = panicking.catchUnwind(() =>
+    result.err(error).unwrapOrThrowErr(),
+  );
+  expect(caught).toBeErrMatching({
+    method: "Result.prototype.unwrapOrThrowErr",
+    payload: error,
+  });
+  expect(caught.isErr() && caught.error.thrown).toBe(error);
+});
+
+test("panicking.catchUnwind() rethrows primitives thrown by unwrapOrThrowErr(), since they cannot be told apart from other throws", () => {
+  const hook = jest.fn();
+  panicking.setHook(hook);
+  let thrown: unknown;
+  try {
+    panicking.catchUnwind(() => result.err("boom").unwrapOrThrowErr());
+  } catch (e) {
+    thrown = e;
+  }
+  panicking.takeHook();
+  expect(thrown).toBe("boom");
+  expect(hook).toHaveBeenCalledTimes(1);
+
+  thrown = undefined;
+  try {
+    panicking.catchUnwind(() => {
+      try {
+        result.err("boom").unwrapOrThrowErr();
+      } catch {
+        // Handled.
+      }
+      throw "boom";
+    });
+  } catch (e) {
+    thrown = e;
+  }
+  expect(thrown).toBe("boom");
+});
+
+test("panicking.catchUnwind() does not mistake an exception for a panic from before the call", () => {
+  const error = new Error("boom");
+  try {
+    result.err(error).unwrapOrThrowErr();
+  } catch {
+    // Handled.
+  }
+  expect(() =>
+    panicking.catchUnwind(() => {
+      throw error;
+    }),
+  ).toThrow(error);
+});
@@ -0,0 +1,97 @@
+import { PanicInfo, UnwrapError, option, panicking, result } from "../src";
+
+afterEach(() => {
+  panicking.takeHook();
+});
+
+function recordPanics(): PanicInfo[] {
+  const panics: PanicInfo[] = [];
+  panicking.setHook(info => {
+    panics.push(info);
+  });
+  return panics;
+}
+
+test("panicking.setHook() reports failed unwraps before they propagate", () => {
+  const panics = recordPanics();
+  const inner = new RangeError("out of range");
+  expect(() => result.err(inner).unwrap()).toThrow(UnwrapError);
+  expect(panics.length).toBe(1);
+  expect(panics[0].method).toBe("Result.prototype.unwrap");
+  expect(panics[0].payload).toBe(inner);
+  expect(panics[0].message).toBe(
+    'called `Result::unwrap()` on an `Err` value: RangeError { message: "out of range" }',
+  );
+  expect(panics[0].thrown).toBeInstanceOf(UnwrapError);
+  expect(panics[0].stack).toContain("panicking.setHook.spec.ts");
+});
+
+test("panicking.setHook() reports every throwing method", () => {
+  const panics = recordPanics();
+  const providedError = new Error("provided");
+  const attempts = [
+    () => option.none().unwrap(),
+    () => option.none().expect("Oh noes!"),
+    () => option.none().expect(providedError),
+    () => result.err("bar").unwrap(),
+    () => result.err("bar").expect("Oh noes!"),
+    () => result.ok("foo").unwrapErr(),
+    () => result.ok("foo").expectErr(providedError),
+    () => result.err("bar").unwrapOrThrowErr(),
+    () => result.ok("foo").unwrapErrOrThrowOk(),
+  ];
+  attempts.forEach(attempt => {
+    expect(attempt).toThrow();
+  });
+  expect(panics.map(info => [info.method, info.payload, info.message])).toEqual(
+    [
+      [
+        "Option.prototype.unwrap",
+        undefined,
+        "called `Option::unwrap()` on a `None` value",
+      ],
+      ["Option.prototype.expect", undefined, "Oh noes!"],
+      ["Option.prototype.expect", undefined, "provided"],
+      [
+        "Result.prototype.unwrap",
+        "bar",
+        'called `Result::unwrap()` on an `Err` value: "bar"',
+      ],
+      ["Result.prototype.expect", "bar", "Oh noes!"],
+      [
+        "Result.prototype.unwrapErr",
+        "foo",
+        'called `Result::unwrapErr()` on an `Ok` value: "foo"',
+      ],
+      ["Result.prototype.expectErr", "foo", "provided"],
+      ["Result.prototype.unwrapOrThrowErr", "bar", "bar"],
+      ["Result.prototype.unwrapErrOrThrowOk", "foo", "foo"],
+    ],
+  );
+});
+
+test("panicking.setHook() is not called when nothing panics", () => {
+  const panics = recordPanics();
+  option.some(1).unwrap();
+  result.ok(1).expect("Oh noes!");
+  result.err(1).unwrapErr();
+  expect(panics).toEqual([]);
+});
+
+test("panicking.setHook() lets the hook throw a different error", () => {
+  class TestFailure extends Error {}
+  panicking.setHook(info => {
+    throw new TestFailure(`Panicked in ${info.method}`);
+  });
+  expect(() => option.none().unwrap()).toThrow(
+    "Panicked in Option.prototype.unwrap",
+  );
+});
+
+test("panicking.setHook() also reports panics from async options and results", async () => {
+  const panics = recordPanics();
+  await expect(
+    result.fromPromise(Promise.reject("bar")).unwrap(),
+  ).rejects.toThrow(UnwrapError);
+  expect(panics.map(info => info.method)).toEqual(["Result.prototype.unwrap"]);
+});
@@ -0,0 +1,39 @@
+import { option, panicking } from "../src";
+
+test("panicking.takeHook() returns the current hook and restores the default one", () => {
+  const hook = jest.fn();
+  panicking.setHook(hook);
+  expect(panicking.takeHook()).toBe(hook);
+
+  expect(() => option.none().unwrap()).toThrow();
+  expect(hook).not.toHaveBeenCalled();
+});
+
+test("panicking.takeHook() lets a new hook delegate to the previous one", () => {
+  const calls: string[] = [];
+  panicking.setHook(() => {
+    calls.push("previous");
+  });
+  const previous = panicking.takeHook();
+  panicking.setHook(info => {
+    calls.push("new");
+    previous(info);
+  });
+
+  expect(() => option.none().unwrap()).toThrow();
+  expect(calls).toEqual(["new", "previous"]);
+  panicking.takeHook();
+});
+
+test("panicking.takeHook() returns a hook that does nothing by default", () => {
+  const defaultHook = panicking.takeHook();
+  expect(() =>
+    defaultHook({
+      message: "",
+      payload: undefined,
+      method: "Option.prototype.unwrap",
+      stack: undefined,
+      thrown: undefined,
+    }),
+  ).not.toThrow();
+});
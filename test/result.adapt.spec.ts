@@ -0,0 +1,30 @@
+import { BaseResult, result } from "../src";
+
+test("result.adapt() returns canonical results as-is", () => {
+  const ok = result.ok(1);
+  expect(result.adapt(ok)).toBe(ok);
+});
+
+test("result.adapt() converts objects that implement match()", () => {
+  const thirdPartyOk: Pick<BaseResult<number, string>, "match"> = {
+    match: matcher => matcher.ok(42),
+  };
+  const thirdPartyErr: Pick<BaseResult<number, string>, "match"> = {
+    match: matcher => matcher.err("foo"),
+  };
+
+  const adapted = result.adapt(thirdPartyOk);
+  expect(result.isResult(adapted)).toBe(true);
+  expect(adapted).toEqual(result.ok(42));
+  expect(result.adapt(thirdPartyErr)).toEqual(result.err("foo"));
+});
+
+test("result.adapt() converts results from another copy of rusty-ts", () => {
+  jest.resetModules();
+  const otherCopy: typeof import("../src") = require("../src");
+  const canonical = result.ok(1);
+  const adapted = result.adapt(otherCopy.result.err<string, number>("foo"));
+
+  expect(adapted).toBeInstanceOf(canonical.constructor);
+  expect(adapted.mapErr(e => e.length)).toEqual(result.err(3));
+});
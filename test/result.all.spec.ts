@@ -1,4 +1,4 @@
-import { result } from "../src";
+import { Result, result } from "../src";
 
 test("result.all() returns ok if all the array elements are ok", () => {
   const a = result.ok({ a: 1 });
@@ -39,3 +39,43 @@ test("result.all() returns err value of the first array element that is an err",
     );
   expect(all).toEqual({ errC: 3 });
 });
+
+test("result.all() keeps per-position types and the error union beyond eight elements", () => {
+  const values: [
+    number,
+    string,
+    boolean,
+    number,
+    number,
+    number,
+    number,
+    number,
+    { i: number },
+    null,
+  ] = result
+    .all([
+      result.ok(1),
+      result.ok("2"),
+      result.ok(true),
+      result.ok(4),
+      result.ok(5),
+      result.ok(6),
+      result.ok(7),
+      result.ok(8),
+      result.ok({ i: 9 }),
+      result.ok(null),
+    ])
+    .unwrap();
+  expect(values[8].i).toBe(9);
+
+  const a: Result<number, "A"> = result.err("A");
+  const b: Result<string, "B"> = result.ok("b");
+  const error: "A" | "B" = result.all([b, b, b, b, b, b, b, b, a]).unwrapErr();
+  expect(error).toBe("A");
+});
+
+test("result.all() accepts arrays", () => {
+  const results: Result<number, string>[] = [result.ok(1), result.ok(2)];
+  const all: Result<number[], string> = result.all(results);
+  expect(all).toEqual(result.ok([1, 2]));
+});
@@ -0,0 +1,41 @@
+import { NonEmptyArray, Result, result } from "../src";
+
+test("result.allErrors() returns ok if all the array elements are ok", () => {
+  const a = result.ok({ a: 1 });
+  const b = result.ok({ b: 2 });
+  const c = result.ok({ c: 3 });
+
+  const all = result
+    .allErrors([a, b, c])
+    .expect("result.allErrors() should return ok if all the values are ok");
+  expect([all[0].a, all[1].b, all[2].c]).toEqual([1, 2, 3]);
+});
+
+test("result.allErrors() returns the err values of every array element that is an err", () => {
+  const a: Result<number, string> = result.ok(1);
+  const errB: Result<number, string> = result.err("too short");
+  const c: Result<boolean, { code: number }> = result.ok(true);
+  const errD: Result<boolean, { code: number }> = result.err({ code: 4 });
+
+  const errors: NonEmptyArray<string | { code: number }> = result
+    .allErrors([a, errB, c, errD])
+    .expectErr(
+      "result.allErrors() should return an err if one of the values is an err",
+    );
+  expect(errors).toEqual(["too short", { code: 4 }]);
+});
+
+test("result.partition()", () => {
+  expect(
+    result.partition([
+      result.ok(1),
+      result.err("foo"),
+      result.ok(2),
+      result.err("bar"),
+    ]),
+  ).toEqual([
+    [1, 2],
+    ["foo", "bar"],
+  ]);
+  expect(result.partition([])).toEqual([[], []]);
+});
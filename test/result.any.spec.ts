@@ -0,0 +1,77 @@
+import { Result, result } from "../src";
+
+test("result.any() returns the first ok", () => {
+  expect(
+    result.any<number, string>([result.err("foo"), result.ok(1), result.ok(2)]),
+  ).toEqual(result.ok(1));
+});
+
+test("result.any() returns every error if no result is ok", () => {
+  expect(result.any([result.err("foo"), result.err("bar")])).toEqual(
+    result.err(["foo", "bar"]),
+  );
+  expect(result.any([])).toEqual(result.err([]));
+});
+
+test("result.anyLazy() does not call the thunks after the first ok", () => {
+  const thunks = [
+    jest.fn((): Result<number, string> => result.err("foo")),
+    jest.fn((): Result<number, string> => result.ok(1)),
+    jest.fn((): Result<number, string> => result.ok(2)),
+  ];
+
+  expect(result.anyLazy(thunks)).toEqual(result.ok(1));
+  expect(thunks.map(thunk => thunk.mock.calls.length)).toEqual([1, 1, 0]);
+});
+
+test("result.anyAsync() calls the thunks in sequence", async () => {
+  const calls: string[] = [];
+  function source(name: string, res: Result<number, string>) {
+    return jest.fn(async () => {
+      calls.push(name);
+      return res;
+    });
+  }
+  const thunks = [
+    source("a", result.err("foo")),
+    source("b", result.ok(1)),
+    source("c", result.ok(2)),
+  ];
+
+  expect(await result.anyAsync(thunks)).toEqual(result.ok(1));
+  expect(calls).toEqual(["a", "b"]);
+
+  expect(
+    await result.anyAsync([
+      () => result.err("foo"),
+      () => Promise.resolve(result.err("bar")),
+    ]),
+  ).toEqual(result.err(["foo", "bar"]));
+});
+
+test("result.anyRace() resolves to the first ok to resolve", async () => {
+  let resolveSlow: (res: Result<string, string>) => void = () => {};
+  const slow = new Promise<Result<string, string>>(resolve => {
+    resolveSlow = resolve;
+  });
+
+  const race = result.anyRace([
+    slow,
+    Promise.resolve(result.err<string, string>("foo")),
+    Promise.resolve(result.ok<string, string>("fast")),
+  ]);
+  expect(await race).toEqual(result.ok("fast"));
+  resolveSlow(result.ok("slow"));
+});
+
+test("result.anyRace() resolves to every error in input order if no result is ok", async () => {
+  expect(
+    await result.anyRace([
+      new Promise<Result<number, string>>(resolve =>
+        setTimeout(() => resolve(result.err("foo")), 0),
+      ),
+      result.err("bar"),
+    ]),
+  ).toEqual(result.err(["foo", "bar"]));
+  expect(await result.anyRace([])).toEqual(result.err([]));
+});
@@ -0,0 +1,46 @@
+import { Result, result } from "../src";
+
+test("result.compare() sorts results like Rust's Ord", () => {
+  const results: Result<number, string>[] = [
+    result.err("b"),
+    result.ok(2),
+    result.err("a"),
+    result.ok(1),
+  ];
+  expect(results.sort(result.compare)).toEqual([
+    result.ok(1),
+    result.ok(2),
+    result.err("a"),
+    result.err("b"),
+  ]);
+});
+
+test("result.compare() sorts nested results", () => {
+  const results: Result<Result<number, number>, never>[] = [
+    result.ok(result.err(1)),
+    result.ok(result.ok(2)),
+    result.ok(result.ok(1)),
+  ];
+  expect(results.sort(result.compare)).toEqual([
+    result.ok(result.ok(1)),
+    result.ok(result.ok(2)),
+    result.ok(result.err(1)),
+  ]);
+});
+
+test("result.compareBy() sorts results with the provided comparators", () => {
+  const results: Result<number, string>[] = [
+    result.err("ccc"),
+    result.ok(1),
+    result.err("a"),
+    result.ok(2),
+  ];
+  expect(
+    results.sort(
+      result.compareBy(
+        (a: number, b: number) => b - a,
+        (a: string, b: string) => a.length - b.length,
+      ),
+    ),
+  ).toEqual([result.ok(2), result.ok(1), result.err("a"), result.err("ccc")]);
+});
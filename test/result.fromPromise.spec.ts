@@ -0,0 +1,26 @@
+import { result } from "../src";
+
+test("result.fromPromise() resolves to ok if the promise fulfills", async () => {
+  expect(await result.fromPromise(Promise.resolve(42))).toEqual(result.ok(42));
+});
+
+test("result.fromPromise() resolves to err if the promise rejects", async () => {
+  expect(await result.fromPromise(Promise.reject("bar"))).toEqual(
+    result.err("bar"),
+  );
+});
+
+test("result.fromPromise() maps the rejection reason using the provided mapper", async () => {
+  const mapError = jest.fn((reason: unknown) => String(reason).toUpperCase());
+  expect(await result.fromPromise(Promise.reject("bar"), mapError)).toEqual(
+    result.err("BAR"),
+  );
+  expect(mapError.mock.calls).toEqual([["bar"]]);
+});
+
+test("result.async() accepts a result or a promise of one", async () => {
+  expect(await result.async(result.ok(42))).toEqual(result.ok(42));
+  expect(await result.async(Promise.resolve(result.err("bar")))).toEqual(
+    result.err("bar"),
+  );
+});
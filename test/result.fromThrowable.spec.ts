@@ -0,0 +1,34 @@
+import { result } from "../src";
+
+test("result.fromThrowable() wraps a function so it returns a result", () => {
+  const safeParse = result.fromThrowable(
+    (s: string): number => JSON.parse(s),
+    thrown => (thrown as Error).name,
+  );
+
+  expect(safeParse("42")).toEqual(result.ok(42));
+  expect(safeParse("{")).toEqual(result.err("SyntaxError"));
+});
+
+test("result.fromThrowable() preserves `this`", () => {
+  const counter = {
+    count: 1,
+    increment: result.fromThrowable(function(this: { count: number }) {
+      return ++this.count;
+    }),
+  };
+
+  expect(counter.increment()).toEqual(result.ok(2));
+});
+
+test("result.fromThrowableAsync() wraps a function so it returns an async result", async () => {
+  const fetchUser = result.fromThrowableAsync(async (id: number) => {
+    if (id < 0) {
+      throw new RangeError("Invalid id");
+    }
+    return { id };
+  });
+
+  expect(await fetchUser(3)).toEqual(result.ok({ id: 3 }));
+  expect(await fetchUser(-1)).toEqual(result.err(new RangeError("Invalid id")));
+});
@@ -0,0 +1,56 @@
+import { Result, result } from "../src";
+
+function parse(s: string): Result<number, "NaN"> {
+  const n = Number(s);
+  return isNaN(n) ? result.err("NaN") : result.ok(n);
+}
+
+function nonZero(n: number): Result<number, "Zero"> {
+  return n === 0 ? result.err("Zero") : result.ok(n);
+}
+
+test("result.gen() returns ok if every yielded result is ok", () => {
+  const res = result.gen(function*() {
+    const a = yield* parse("12").bind();
+    const b = yield* nonZero(yield* parse("4").bind()).bind();
+    return a / b;
+  });
+
+  expect(res).toEqual(result.ok(3));
+});
+
+test("result.gen() returns the first err", () => {
+  const afterErr = jest.fn();
+  const res: Result<number, "NaN" | "Zero"> = result.gen(function*() {
+    const a = yield* parse("12").bind();
+    const b = yield* nonZero(yield* parse("0").bind()).bind();
+    afterErr();
+    const c = yield* parse("foo").bind();
+    return a / b + c;
+  });
+
+  expect(res).toEqual(result.err("Zero"));
+  expect(afterErr.mock.calls.length).toBe(0);
+});
+
+test("result.gen() runs finally blocks when short-circuiting", () => {
+  const cleanup = jest.fn();
+  const res = result.gen(function*() {
+    try {
+      return yield* parse("foo").bind();
+    } finally {
+      cleanup();
+    }
+  });
+
+  expect(res).toEqual(result.err("NaN"));
+  expect(cleanup.mock.calls.length).toBe(1);
+});
+
+test("result.gen() returns ok if nothing is yielded", () => {
+  const res: Result<string, never> = result.gen(function*() {
+    return "foo";
+  });
+
+  expect(res).toEqual(result.ok("foo"));
+});
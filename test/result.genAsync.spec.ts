@@ -0,0 +1,66 @@
+import { Result, result } from "../src";
+
+interface User {
+  id: number;
+  name: string;
+}
+
+async function fetchUser(id: number): Promise<Result<User, "NotFound">> {
+  return id === 1
+    ? result.ok({ id, name: "Alice" })
+    : result.err<"NotFound">("NotFound");
+}
+
+function validateName(name: string): Result<string, "Invalid"> {
+  return name.length > 0 ? result.ok(name) : result.err("Invalid");
+}
+
+test("result.genAsync() resolves to ok if every yielded result is ok", async () => {
+  const res = await result.genAsync(async function*() {
+    const user = yield* (await fetchUser(1)).bind();
+    const name = yield* validateName(user.name).bind();
+    const greeting = yield* result
+      .async(Promise.resolve(result.ok("Hello")))
+      .bind();
+    return greeting + ", " + name;
+  });
+
+  expect(res).toEqual(result.ok("Hello, Alice"));
+});
+
+test("result.genAsync() resolves to the first err", async () => {
+  const afterErr = jest.fn();
+  const res: Result<string, "NotFound" | "Invalid"> = await result.genAsync(
+    async function*() {
+      const user = yield* (await fetchUser(2)).bind();
+      afterErr();
+      return yield* validateName(user.name).bind();
+    },
+  );
+
+  expect(res).toEqual(result.err("NotFound"));
+  expect(afterErr.mock.calls.length).toBe(0);
+});
+
+test("result.genAsync() short-circuits on an AsyncResult that resolves to err", async () => {
+  const res = await result.genAsync(async function*() {
+    yield* result.async(fetchUser(3)).bind();
+    return "unreachable";
+  });
+
+  expect(res).toEqual(result.err("NotFound"));
+});
+
+test("result.genAsync() runs finally blocks when short-circuiting", async () => {
+  const cleanup = jest.fn();
+  const res = await result.genAsync(async function*() {
+    try {
+      return yield* (await fetchUser(2)).bind();
+    } finally {
+      cleanup();
+    }
+  });
+
+  expect(res).toEqual(result.err("NotFound"));
+  expect(cleanup.mock.calls.length).toBe(1);
+});
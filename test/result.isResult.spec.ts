@@ -0,0 +1,30 @@
+import { option, result } from "../src";
+
+test("result.isResult() recognizes results", () => {
+  expect(result.isResult(result.ok(1))).toBe(true);
+  expect(result.isResult(result.err("foo"))).toBe(true);
+});
+
+test("result.isResult() rejects other values", () => {
+  [
+    undefined,
+    null,
+    42,
+    "ok",
+    {},
+    { kind: "ok", value: 1 },
+    option.some(1),
+  ].forEach(value => {
+    expect(result.isResult(value)).toBe(false);
+  });
+});
+
+test("result.isResult() recognizes results from another copy of rusty-ts", () => {
+  jest.resetModules();
+  const otherCopy: typeof import("../src") = require("../src");
+  const foreign = otherCopy.result.err("foo");
+
+  expect(otherCopy.result).not.toBe(result);
+  expect(foreign).not.toBeInstanceOf(result.ok(1).constructor);
+  expect(result.isResult(foreign)).toBe(true);
+});
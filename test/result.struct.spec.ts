@@ -0,0 +1,85 @@
+import { Result, result } from "../src";
+
+const name: Result<string, "EmptyName"> = result.ok("Alice");
+const emptyName: Result<string, "EmptyName"> = result.err("EmptyName");
+const age: Result<number, "NegativeAge"> = result.ok(42);
+const negativeAge: Result<number, "NegativeAge"> = result.err("NegativeAge");
+
+test("result.struct() returns ok if every property is ok", () => {
+  const res: Result<
+    { name: string; age: number },
+    "EmptyName" | "NegativeAge"
+  > = result.struct({ name, age });
+
+  expect(res).toEqual(result.ok({ name: "Alice", age: 42 }));
+});
+
+test("result.struct() returns the err value of the first property that is an err", () => {
+  expect(result.struct({ name: emptyName, age: negativeAge })).toEqual(
+    result.err("EmptyName"),
+  );
+});
+
+test("result.structErrors() returns ok if every property is ok", () => {
+  expect(result.structErrors({ name, age })).toEqual(
+    result.ok({ name: "Alice", age: 42 }),
+  );
+});
+
+test("result.structErrors() returns the err value of every property that is an err", () => {
+  const res: Result<
+    { name: string; age: number },
+    { name?: "EmptyName"; age?: "NegativeAge" }
+  > = result.structErrors({ name: emptyName, age: negativeAge });
+
+  expect(res).toEqual(result.err({ name: "EmptyName", age: "NegativeAge" }));
+  expect(result.structErrors({ name, age: negativeAge })).toEqual(
+    result.err({ age: "NegativeAge" }),
+  );
+});
+
+test("result.allMap()", () => {
+  expect(
+    result.allMap(
+      new Map([
+        ["a", result.ok<number, string>(1)],
+        ["b", result.ok<number, string>(2)],
+      ]),
+    ),
+  ).toEqual(
+    result.ok(
+      new Map([
+        ["a", 1],
+        ["b", 2],
+      ]),
+    ),
+  );
+
+  expect(
+    result.allMap(
+      new Map([
+        ["a", result.err<string, number>("foo")],
+        ["b", result.err<string, number>("bar")],
+      ]),
+    ),
+  ).toEqual(result.err("foo"));
+});
+
+test("result.allErrorsMap()", () => {
+  expect(
+    result.allErrorsMap(
+      new Map([
+        ["a", result.err<string, number>("foo")],
+        ["b", result.ok<number, string>(2)],
+        ["c", result.err<string, number>("bar")],
+      ]),
+    ),
+  ).toEqual(
+    result.err(
+      new Map([
+        ["a", "foo"],
+        ["c", "bar"],
+      ]),
+    ),
+  );
+});
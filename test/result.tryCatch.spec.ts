@@ -0,0 +1,40 @@
+import { result } from "../src";
+
+test("result.tryCatch() returns ok if the function returns", () => {
+  expect(result.tryCatch(() => JSON.parse("42"))).toEqual(result.ok(42));
+});
+
+test("result.tryCatch() returns err if the function throws", () => {
+  const error = new Error("Oh noes!");
+  expect(
+    result.tryCatch(() => {
+      throw error;
+    }),
+  ).toEqual(result.err(error));
+});
+
+test("result.tryCatch() maps the thrown value using the provided mapper", () => {
+  const mapError = jest.fn((thrown: unknown) => String(thrown).toUpperCase());
+  expect(
+    result.tryCatch(() => {
+      throw "bar";
+    }, mapError),
+  ).toEqual(result.err("BAR"));
+  expect(mapError.mock.calls).toEqual([["bar"]]);
+});
+
+test("result.tryCatchAsync() resolves to ok if the function returns or fulfills", async () => {
+  expect(await result.tryCatchAsync(() => 42)).toEqual(result.ok(42));
+  expect(await result.tryCatchAsync(async () => 42)).toEqual(result.ok(42));
+});
+
+test("result.tryCatchAsync() resolves to err if the function throws or rejects", async () => {
+  expect(
+    await result.tryCatchAsync(() => {
+      throw "bar";
+    }),
+  ).toEqual(result.err("bar"));
+  expect(
+    await result.tryCatchAsync(() => Promise.reject("baz"), String),
+  ).toEqual(result.err("baz"));
+});
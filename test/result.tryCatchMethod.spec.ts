@@ -0,0 +1,29 @@
+import { Result, result } from "../src";
+
+class Parser {
+  constructor(private radix: number) {}
+
+  @result.tryCatchMethod(thrown => (thrown as Error).message)
+  parse(s: string): Result<number, string> {
+    const n = parseInt(s, this.radix);
+    if (isNaN(n)) {
+      throw new Error("Not a number: " + s);
+    }
+    return result.ok(n);
+  }
+
+  @result.tryCatchMethod()
+  parseOrErr(s: string): Result<number, unknown> {
+    return s === "" ? result.err("empty") : this.parse(s);
+  }
+}
+
+test("result.tryCatchMethod() converts thrown values into err", () => {
+  const parser = new Parser(16);
+  expect(parser.parse("ff")).toEqual(result.ok(255));
+  expect(parser.parse("xyz")).toEqual(result.err("Not a number: xyz"));
+});
+
+test("result.tryCatchMethod() passes returned results through untouched", () => {
+  expect(new Parser(10).parseOrErr("")).toEqual(result.err("empty"));
+});
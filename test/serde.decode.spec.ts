@@ -0,0 +1,115 @@
+import { Option, Result, option, result, serde } from "../src";
+
+const { shape } = serde;
+
+test("serde.decode() revives options", () => {
+  const optionalNumber = shape.option(shape.number());
+  expect(serde.decode(42, optionalNumber)).toEqual(result.ok(option.some(42)));
+  expect(serde.decode(null, optionalNumber)).toEqual(result.ok(option.none()));
+});
+
+test("serde.decode() revives externally tagged results by default", () => {
+  const res = shape.result(shape.number(), shape.string());
+  expect(serde.decode({ Ok: 42 }, res)).toEqual(result.ok(result.ok(42)));
+  expect(serde.decode({ Err: "foo" }, res)).toEqual(
+    result.ok(result.err("foo")),
+  );
+});
+
+test("serde.decode() revives a whole JSON tree", () => {
+  const user = shape.object({
+    name: shape.string(),
+    nickname: shape.option(shape.string()),
+    scores: shape.array(
+      shape.result(
+        shape.option(shape.number()),
+        shape.object({ reason: shape.string() }),
+      ),
+    ),
+  });
+  const decoded = serde.decode(
+    JSON.parse(
+      '{"name":"foo","nickname":null,"scores":[{"Ok":1},{"Err":{"reason":"bar"}}]}',
+    ),
+    user,
+  );
+  const expected: Result<
+    {
+      name: string;
+      nickname: Option<string>;
+      scores: Result<Option<number>, { reason: string }>[];
+    },
+    unknown
+  > = result.ok({
+    name: "foo",
+    nickname: option.none(),
+    scores: [result.ok(option.some(1)), result.err({ reason: "bar" })],
+  });
+  expect(decoded).toEqual(expected);
+});
+
+test("serde.decode() treats missing optional fields as none", () => {
+  expect(
+    serde.decode({}, shape.object({ nickname: shape.option(shape.string()) })),
+  ).toEqual(result.ok({ nickname: option.none() }));
+});
+
+test("serde.decode() round-trips serde.encode() for every tagging", () => {
+  const res = shape.result(
+    shape.object({ id: shape.number() }),
+    shape.object({ reason: shape.string() }),
+  );
+  const values = [result.ok({ id: 1 }), result.err({ reason: "foo" })];
+  const taggings = [
+    "external" as const,
+    "untagged" as const,
+    { tag: "type" },
+    { tag: "t", content: "c" },
+  ];
+  taggings.forEach(tagging => {
+    values.forEach(value => {
+      expect(serde.decode(serde.encode(value, tagging), res, tagging)).toEqual(
+        result.ok(value),
+      );
+    });
+  });
+});
+
+test("serde.decode() decodes an untagged result as ok if it matches the ok shape", () => {
+  const res = shape.result(shape.number(), shape.unknown());
+  expect(serde.decode(42, res, "untagged")).toEqual(result.ok(result.ok(42)));
+  expect(serde.decode("foo", res, "untagged")).toEqual(
+    result.ok(result.err("foo")),
+  );
+});
+
+test("serde.decode() reports the path of the first mismatch", () => {
+  const decoded = serde.decode(
+    { items: [{ Ok: 1 }, { Ok: "two" }] },
+    shape.object({
+      items: shape.array(shape.result(shape.number(), shape.string())),
+    }),
+  );
+  expect(decoded.isErr() && decoded.error).toEqual({
+    path: ["items", 1, "Ok"],
+    message: 'Expected a number at $.items[1].Ok, but got "two".',
+  });
+});
+
+test("serde.decode() rejects malformed results", () => {
+  const res = shape.result(shape.number(), shape.string());
+  expect(serde.decode({ Ok: 1, Err: "foo" }, res)).toBeErr();
+  expect(serde.decode({ Maybe: 1 }, res)).toBeErr();
+  expect(serde.decode(42, res)).toBeErr();
+  expect(
+    serde.decode({ t: "Maybe", c: 1 }, res, { tag: "t", content: "c" }),
+  ).toEqual(
+    result.err({
+      path: [],
+      message: 'Expected an "Ok" or "Err" tag at $, but got "Maybe".',
+    }),
+  );
+  expect(serde.decode(true, res, "untagged")).toBeErrMatching(
+    /untagged result/,
+  );
+});
@@ -0,0 +1,69 @@
+import { option, result, serde } from "../src";
+
+test("serde.encode() represents options as null or the wrapped value", () => {
+  expect(serde.encode(option.some(42))).toBe(42);
+  expect(serde.encode(option.none())).toBe(null);
+  expect(serde.encode(option.some(option.none()))).toBe(null);
+});
+
+test("serde.encode() externally tags results by default", () => {
+  expect(serde.encode(result.ok(42))).toEqual({ Ok: 42 });
+  expect(serde.encode(result.err("foo"))).toEqual({ Err: "foo" });
+});
+
+test("serde.encode() converts options and results nested in arrays and objects", () => {
+  expect(
+    serde.encode({
+      name: "foo",
+      nickname: option.none(),
+      scores: [result.ok(option.some(1)), result.err({ reason: "bar" })],
+    }),
+  ).toEqual({
+    name: "foo",
+    nickname: null,
+    scores: [{ Ok: 1 }, { Err: { reason: "bar" } }],
+  });
+});
+
+test("serde.encode() supports adjacently tagged results", () => {
+  const tagging = { tag: "t", content: "c" };
+  expect(serde.encode(result.ok(42), tagging)).toEqual({ t: "Ok", c: 42 });
+  expect(serde.encode(result.err(result.ok("foo")), tagging)).toEqual({
+    t: "Err",
+    c: { t: "Ok", c: "foo" },
+  });
+});
+
+test("serde.encode() supports internally tagged results", () => {
+  const tagging = { tag: "type" };
+  expect(serde.encode(result.ok({ id: 1 }), tagging)).toEqual({
+    type: "Ok",
+    id: 1,
+  });
+  expect(serde.encode(result.err({ reason: "foo" }), tagging)).toEqual({
+    type: "Err",
+    reason: "foo",
+  });
+});
+
+test("serde.encode() throws if an internally tagged result does not wrap an object", () => {
+  expect(() => serde.encode(result.ok(42), { tag: "type" })).toThrow(TypeError);
+  expect(() => serde.encode(result.ok([1]), { tag: "type" })).toThrow(
+    TypeError,
+  );
+});
+
+test("serde.encode() supports untagged results", () => {
+  expect(serde.encode(result.ok(42), "untagged")).toBe(42);
+  expect(serde.encode(result.err("foo"), "untagged")).toBe("foo");
+});
+
+test("JSON.stringify() uses the default serde representation", () => {
+  expect(
+    JSON.stringify({
+      a: option.some(result.ok(1)),
+      b: option.none(),
+      c: result.err([option.some("foo")]),
+    }),
+  ).toBe('{"a":{"Ok":1},"b":null,"c":{"Err":["foo"]}}');
+});
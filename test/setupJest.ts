@@ -0,0 +1,4 @@
+import { matchers, serializer } from "../src/jest";
+
+expect.extend(matchers);
+expect.addSnapshotSerializer(serializer);
@@ -0,0 +1,18 @@
+import { UnwrapError, todo } from "../src";
+
+test("todo() throws an UnwrapError with Rust's message", () => {
+  expect(() => todo()).toThrow(UnwrapError);
+  expect(() => todo()).toThrow(
+    new UnwrapError("not yet implemented", undefined),
+  );
+  expect(() => todo("support bigints")).toThrow(
+    new UnwrapError("not yet implemented: support bigints", undefined),
+  );
+});
+
+test("todo() can stand in for a return value", () => {
+  function parse(_input: string): number {
+    return todo();
+  }
+  expect(() => parse("42")).toThrow("not yet implemented");
+});
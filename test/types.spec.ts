@@ -0,0 +1,22 @@
+import {
+  ErrType,
+  OkType,
+  Option,
+  Result,
+  SomeType,
+  UnwrapAll,
+  option,
+  result,
+} from "../src";
+
+test("SomeType, OkType, ErrType and UnwrapAll extract the wrapped types", () => {
+  const some: SomeType<Option<string>> = "foo";
+  const ok: OkType<Result<number, Error>> = 42;
+  const err: ErrType<Result<number, "A"> | Result<string, "B">> = "B";
+  const all: UnwrapAll<[Option<string>, Result<number, Error>]> = ["foo", 42];
+
+  expect(option.some(some)).toEqual(option.some("foo"));
+  expect(result.ok(ok)).toEqual(result.ok(42));
+  expect(result.err(err)).toEqual(result.err("B"));
+  expect(all).toEqual(["foo", 42]);
+});
@@ -0,0 +1,29 @@
+import { Option, UnwrapError, option, unreachable } from "../src";
+
+test("unreachable() throws an UnwrapError with Rust's message", () => {
+  expect(() => unreachable()).toThrow(UnwrapError);
+  expect(() => unreachable()).toThrow(
+    new UnwrapError("internal error: entered unreachable code", undefined),
+  );
+  expect(() => unreachable("kind was checked above")).toThrow(
+    new UnwrapError(
+      "internal error: entered unreachable code: kind was checked above",
+      undefined,
+    ),
+  );
+});
+
+test("unreachable() can end an exhaustive switch", () => {
+  function describe(opt: Option<number>): string {
+    switch (opt.kind) {
+      case "none":
+        return "nothing";
+      case "some":
+        return `${opt.value}`;
+      default:
+        return unreachable();
+    }
+  }
+  expect(describe(option.some(1))).toBe("1");
+  expect(describe(option.none())).toBe("nothing");
+});